@@ -14,6 +14,14 @@ const envVars = {
   DUCK_UI_EXTERNAL_PASS: process.env.DUCK_UI_EXTERNAL_PASS || "",
   DUCK_UI_EXTERNAL_DATABASE_NAME:
     process.env.DUCK_UI_EXTERNAL_DATABASE_NAME || "",
+  // Authentication mode: none, password, api_key or bearer
+  DUCK_UI_EXTERNAL_AUTH_MODE: process.env.DUCK_UI_EXTERNAL_AUTH_MODE || "",
+  DUCK_UI_EXTERNAL_API_KEY: process.env.DUCK_UI_EXTERNAL_API_KEY || "",
+  DUCK_UI_EXTERNAL_API_KEY_HEADER:
+    process.env.DUCK_UI_EXTERNAL_API_KEY_HEADER || "",
+  DUCK_UI_EXTERNAL_TOKEN: process.env.DUCK_UI_EXTERNAL_TOKEN || "",
+  // Protocol of the external server: duckdb_http, clickhouse_http or json_api
+  DUCK_UI_EXTERNAL_DRIVER: process.env.DUCK_UI_EXTERNAL_DRIVER || "",
   // Add new configuration for DuckDB settings
   DUCK_UI_ALLOW_UNSIGNED_EXTENSIONS:
     process.env.DUCK_UI_ALLOW_UNSIGNED_EXTENSIONS === "true" || false
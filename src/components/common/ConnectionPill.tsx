@@ -6,19 +6,46 @@ import {
 } from "@/components/ui/tooltip";
 import { Badge } from "@/components/ui/badge";
 import { Database, ExternalLink } from "lucide-react";
-import { ConnectionProvider } from "@/store"; // Import ConnectionProvider
+import {
+  ConnectionHealthStatus,
+  ConnectionProvider,
+  useDuckStore,
+} from "@/store"; // Import ConnectionProvider
+import { getConnectionDriver } from "@/lib/connectionDrivers";
+import { cn, formatDuration } from "@/lib/utils";
 
 interface ConnectionPillProps {
   connection: ConnectionProvider | null;
 }
 
+const HEALTH_STYLES: Record<
+  ConnectionHealthStatus,
+  { label: string; className: string }
+> = {
+  checking: { label: "Checking", className: "bg-gray-400 animate-pulse" },
+  online: { label: "Online", className: "bg-green-500" },
+  degraded: { label: "Degraded", className: "bg-yellow-500" },
+  offline: { label: "Offline", className: "bg-red-500 animate-pulse" },
+};
+
 const ConnectionPill: React.FC<ConnectionPillProps> = ({ connection }) => {
   const isExternal = connection?.scope === "External";
+  const checkConnectionHealth = useDuckStore(
+    (state) => state.checkConnectionHealth
+  );
+  const health = useDuckStore((state) =>
+    state.connectionHealth?.connectionId === connection?.id
+      ? state.connectionHealth
+      : null
+  );
 
   return (
     <TooltipProvider>
       <Tooltip delayDuration={200}>
-        <TooltipTrigger>
+        <TooltipTrigger
+          // Check right away instead of waiting for the next health check.
+          onClick={() => health && checkConnectionHealth()}
+        >
           <Badge
             variant="outline"
             className={`
@@ -39,6 +66,22 @@ const ConnectionPill: React.FC<ConnectionPillProps> = ({ connection }) => {
             >
               {connection?.name || "No Connection"}
             </span>
+            {health && (
+              <>
+                <span
+                  className={cn(
+                    "h-2 w-2 rounded-full",
+                    HEALTH_STYLES[health.status].className
+                  )}
+                />
+                {health.status !== "offline" &&
+                  health.latency !== undefined && (
+                    <span className="text-xs text-muted-foreground">
+                      {formatDuration(health.latency)}
+                    </span>
+                  )}
+              </>
+            )}
           </Badge>
         </TooltipTrigger>
         <TooltipContent side="bottom" className=" p-0" sideOffset={5}>
@@ -96,6 +139,58 @@ const ConnectionPill: React.FC<ConnectionPillProps> = ({ connection }) => {
                 <span className="text-sm font-mono">{connection.user}</span>
               </div>
             )}
+            {connection?.scope === "External" && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm">Driver</span>
+                <span className="text-sm font-mono">
+                  {getConnectionDriver(connection).label}
+                </span>
+              </div>
+            )}
+            {connection?.authMode && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm">Auth</span>
+                <span className="text-sm font-mono">{connection.authMode}</span>
+              </div>
+            )}
+            {health && (
+              <>
+                <hr />
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Status</span>
+                  <span className="text-sm font-mono flex items-center gap-2">
+                    <span
+                      className={cn(
+                        "h-2 w-2 rounded-full",
+                        HEALTH_STYLES[health.status].className
+                      )}
+                    />
+                    {HEALTH_STYLES[health.status].label}
+                  </span>
+                </div>
+                {health.latency !== undefined && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm">Latency</span>
+                    <span className="text-sm font-mono">
+                      {formatDuration(health.latency)}
+                    </span>
+                  </div>
+                )}
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">Last Success</span>
+                  <span className="text-sm font-mono ml-4">
+                    {health.lastSuccessAt
+                      ? new Date(health.lastSuccessAt).toLocaleTimeString()
+                      : "-"}
+                  </span>
+                </div>
+                {health.error && (
+                  <p className="text-xs text-red-500 max-w-64 break-words">
+                    {health.error}
+                  </p>
+                )}
+              </>
+            )}
           </div>
         </TooltipContent>
       </Tooltip>
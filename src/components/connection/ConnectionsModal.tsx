@@ -14,6 +14,7 @@ import * as z from "zod";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -30,33 +31,58 @@ import {
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useDuckStore } from "@/store";
+import {
+  CONNECTION_DRIVERS,
+  DEFAULT_API_KEY_HEADER,
+  DEFAULT_CONNECTION_DRIVER,
+} from "@/lib/connectionDrivers";
 
-const connectionSchema = z.object({
-  name: z
-    .string()
-    .min(2, {
-      message: "Connection name must be at least 2 characters.",
-    })
-    .max(30, {
-      message: "Connection name must not exceed 30 characters.",
+const connectionSchema = z
+  .object({
+    name: z
+      .string()
+      .min(2, {
+        message: "Connection name must be at least 2 characters.",
+      })
+      .max(30, {
+        message: "Connection name must not exceed 30 characters.",
+      }),
+    scope: z.enum(["External"]),
+    driver: z.enum(["duckdb_http", "clickhouse_http", "json_api"]).optional(),
+    host: z.string().url({
+      message: "Host must be a valid URL.",
     }),
-  scope: z.enum(["External"]),
-  host: z.string().url({
-    message: "Host must be a valid URL.",
-  }),
-  port: z
-    .string()
-    .refine((val) => !isNaN(parseInt(val, 10)) || val === "", {
-      //Allow empty string
-      message: "Port must be a number.",
-    })
-    .optional(),
-  database: z.string().optional(),
-  user: z.string().optional(),
-  password: z.string().optional(),
-  authMode: z.enum(["none", "password", "api_key"]).optional(),
-  apiKey: z.string().optional(),
-});
+    port: z
+      .string()
+      .refine((val) => !isNaN(parseInt(val, 10)) || val === "", {
+        //Allow empty string
+        message: "Port must be a number.",
+      })
+      .optional(),
+    database: z.string().optional(),
+    user: z.string().optional(),
+    password: z.string().optional(),
+    authMode: z.enum(["none", "password", "api_key", "bearer"]).optional(),
+    apiKey: z.string().optional(),
+    apiKeyHeader: z.string().optional(),
+    bearerToken: z.string().optional(),
+  })
+  .superRefine((values, ctx) => {
+    if (values.authMode === "api_key" && !values.apiKey) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["apiKey"],
+        message: "API key is required.",
+      });
+    }
+    if (values.authMode === "bearer" && !values.bearerToken) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["bearerToken"],
+        message: "Token is required.",
+      });
+    }
+  });
 
 type ConnectionFormValues = z.infer<typeof connectionSchema>;
 
@@ -80,6 +106,7 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
     defaultValues: initialValues || {
       name: "",
       scope: "External",
+      driver: DEFAULT_CONNECTION_DRIVER,
       host: "",
       port: "",
       database: "",
@@ -87,6 +114,8 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
       password: "",
       authMode: "none",
       apiKey: "",
+      apiKeyHeader: "",
+      bearerToken: "",
     },
     mode: "onChange",
   });
@@ -157,6 +186,45 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
 
               {form.watch("scope") === "External" && (
                 <>
+                  <FormField
+                    control={form.control}
+                    name="driver"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Driver</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          defaultValue={
+                            field.value ?? DEFAULT_CONNECTION_DRIVER
+                          }
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select driver" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {CONNECTION_DRIVERS.map((driver) => (
+                              <SelectItem key={driver.id} value={driver.id}>
+                                {driver.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          {
+                            CONNECTION_DRIVERS.find(
+                              (driver) =>
+                                driver.id ===
+                                (form.watch("driver") ??
+                                  DEFAULT_CONNECTION_DRIVER)
+                            )?.description
+                          }
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                   <FormField
                     control={form.control}
                     name="host"
@@ -215,6 +283,7 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
                             <SelectItem value="none">None</SelectItem>
                             <SelectItem value="password">Password</SelectItem>
                             <SelectItem value="api_key">API Key</SelectItem>
+                            <SelectItem value="bearer">Bearer Token</SelectItem>
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -258,16 +327,54 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
                   )}
 
                   {form.watch("authMode") === "api_key" && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="apiKeyHeader"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Header Name</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder={DEFAULT_API_KEY_HEADER}
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="apiKey"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>API Key</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="password"
+                                placeholder="Enter your API key"
+                                {...field}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
+
+                  {form.watch("authMode") === "bearer" && (
                     <FormField
                       control={form.control}
-                      name="apiKey"
+                      name="bearerToken"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>API Key</FormLabel>
+                          <FormLabel>Token</FormLabel>
                           <FormControl>
                             <Input
                               type="password"
-                              placeholder="Enter your API key"
+                              placeholder="Enter your bearer token"
                               {...field}
                             />
                           </FormControl>
@@ -0,0 +1,144 @@
+import { format } from "date-fns";
+import { HardDrive, Loader2, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { useDuckStore } from "@/store";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+const LocalDatabaseCard = () => {
+  const {
+    storageMode,
+    isPersistent,
+    lastCheckpoint,
+    isLoading,
+    setStorageMode,
+    checkpoint,
+    resetLocalDatabase,
+  } = useDuckStore();
+
+  const handleCheckpoint = async () => {
+    try {
+      await checkpoint();
+      toast.success("Local database saved");
+    } catch (error) {
+      toast.error(
+        `Checkpoint failed: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HardDrive size={20} />
+          Local Database
+        </CardTitle>
+        <CardDescription>
+          Store the WASM database in the browser's Origin Private File System so
+          tables, views and macros survive page reloads.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label htmlFor="persist-wasm">Persist WASM database</Label>
+            <p className="text-xs text-muted-foreground">
+              Switching modes reopens the database. Tables that only exist in
+              memory will be lost.
+            </p>
+          </div>
+          <Switch
+            id="persist-wasm"
+            checked={storageMode === "opfs"}
+            disabled={isLoading}
+            onCheckedChange={(checked) =>
+              setStorageMode(checked ? "opfs" : "memory")
+            }
+          />
+        </div>
+
+        {storageMode === "opfs" && !isPersistent && (
+          <p className="text-xs text-amber-500">
+            The local database could not be opened (is Duck-UI open in another
+            tab?). Running in memory for now.
+          </p>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {isPersistent
+              ? lastCheckpoint
+                ? `Last saved ${format(lastCheckpoint, "MMM d, yyyy h:mm:ss a")}`
+                : "Not saved yet in this session"
+              : "Data is kept in memory only"}
+          </span>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCheckpoint}
+              disabled={!isPersistent || isLoading}
+            >
+              {isLoading ? (
+                <Loader2 size={16} className="mr-2 animate-spin" />
+              ) : (
+                <Save size={16} className="mr-2" />
+              )}
+              Save now
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" size="sm" disabled={isLoading}>
+                  <Trash2 size={16} className="mr-2" />
+                  Reset local database
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Reset Local Database?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This permanently deletes every table, view and macro stored
+                    in the WASM database. This action cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={resetLocalDatabase}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Reset
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LocalDatabaseCard;
@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { useDuckStore } from "@/store";
+
+export type VaultDialogMode = "unlock" | "enable";
+
+const unlockSchema = z.object({
+  passphrase: z.string().min(1, { message: "Passphrase is required." }),
+  confirmation: z.string().optional(),
+});
+
+const enableSchema = z
+  .object({
+    passphrase: z
+      .string()
+      .min(8, { message: "Passphrase must be at least 8 characters." }),
+    confirmation: z.string().optional(),
+  })
+  .refine((values) => values.passphrase === values.confirmation, {
+    path: ["confirmation"],
+    message: "Passphrases don't match.",
+  });
+
+type VaultFormValues = z.infer<typeof unlockSchema>;
+
+interface VaultDialogProps {
+  mode: VaultDialogMode | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type VaultFormProps = Pick<VaultDialogProps, "onOpenChange"> & {
+  mode: VaultDialogMode;
+};
+
+// The form only mounts while the dialog is open, so it always starts empty.
+const VaultForm: React.FC<VaultFormProps> = ({ mode, onOpenChange }) => {
+  const { enableVault, unlockVault } = useDuckStore();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const form = useForm<VaultFormValues>({
+    resolver: zodResolver(mode === "enable" ? enableSchema : unlockSchema),
+    defaultValues: { passphrase: "", confirmation: "" },
+  });
+
+  const handleSubmit = async ({ passphrase }: VaultFormValues) => {
+    setIsSubmitting(true);
+    try {
+      if (mode === "enable") {
+        await enableVault(passphrase);
+      } else {
+        await unlockVault(passphrase);
+      }
+      onOpenChange(false);
+    } catch (error) {
+      form.setError("passphrase", {
+        message: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="passphrase"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Passphrase</FormLabel>
+              <FormControl>
+                <Input type="password" autoFocus {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {mode === "enable" && (
+          <FormField
+            control={form.control}
+            name="confirmation"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Confirm Passphrase</FormLabel>
+                <FormControl>
+                  <Input type="password" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => onOpenChange(false)}
+          >
+            {mode === "unlock" ? "Not Now" : "Cancel"}
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {mode === "unlock" ? "Unlock" : "Enable Vault"}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+};
+
+const VaultDialog: React.FC<VaultDialogProps> = ({ mode, onOpenChange }) => (
+  <Dialog open={!!mode} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-[425px]">
+      <DialogHeader>
+        <DialogTitle>
+          {mode === "enable"
+            ? "Encrypt Connection Credentials"
+            : "Unlock Credentials Vault"}
+        </DialogTitle>
+        <DialogDescription>
+          {mode === "enable"
+            ? "Passwords, API keys and tokens will only be stored encrypted with this passphrase. It can't be recovered if you forget it."
+            : "Enter your passphrase to use the saved connection credentials."}
+        </DialogDescription>
+      </DialogHeader>
+      {mode && <VaultForm mode={mode} onOpenChange={onOpenChange} />}
+    </DialogContent>
+  </Dialog>
+);
+
+export default VaultDialog;
@@ -0,0 +1,96 @@
+import React, { useMemo } from "react";
+import { Variable } from "lucide-react";
+import { QueryParameterType, useDuckStore } from "@/store";
+import { findQueryParameters } from "@/lib/sql";
+import { getQueryParameter } from "@/lib/queryParameters";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const PARAMETER_TYPES: { value: QueryParameterType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "number", label: "Number" },
+  { value: "date", label: "Date" },
+  { value: "boolean", label: "Boolean" },
+];
+
+interface ParameterBarProps {
+  tabId: string;
+  query: string;
+  onRun: () => void;
+}
+
+const ParameterBar: React.FC<ParameterBarProps> = ({ tabId, query, onRun }) => {
+  const { tabs, setTabParameter } = useDuckStore();
+  const parameters = tabs.find((tab) => tab.id === tabId)?.parameters;
+  const names = useMemo(() => findQueryParameters(query), [query]);
+
+  if (names.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-t bg-muted/30">
+      <Variable className="h-4 w-4 text-muted-foreground" />
+      {names.map((name) => {
+        const parameter = getQueryParameter(parameters, name);
+        const inputId = `parameter-${tabId}-${name}`;
+        const setValue = (value: string) =>
+          setTabParameter(tabId, name, { ...parameter, value });
+
+        return (
+          <div key={name} className="flex items-center gap-1">
+            <Label htmlFor={inputId} className="font-mono text-xs">
+              :{name}
+            </Label>
+            <Select
+              value={parameter.type}
+              onValueChange={(type: QueryParameterType) =>
+                setTabParameter(tabId, name, {
+                  type,
+                  value: type === "boolean" ? "false" : "",
+                })
+              }
+            >
+              <SelectTrigger className="h-7 w-[90px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PARAMETER_TYPES.map(({ value, label }) => (
+                  <SelectItem key={value} value={value} className="text-xs">
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {parameter.type === "boolean" ? (
+              <Switch
+                id={inputId}
+                checked={parameter.value === "true"}
+                onCheckedChange={(checked) => setValue(String(checked))}
+              />
+            ) : (
+              <Input
+                id={inputId}
+                type={parameter.type}
+                value={parameter.value}
+                onChange={(e) => setValue(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") onRun();
+                }}
+                className="h-7 w-[160px] text-xs"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ParameterBar;
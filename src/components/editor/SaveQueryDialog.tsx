@@ -0,0 +1,194 @@
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { SavedQueryInput } from "@/store";
+
+const savedQuerySchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, { message: "Name is required." })
+    .max(100, { message: "Name must not exceed 100 characters." }),
+  folder: z.string().optional(),
+  tags: z.string().optional(),
+  description: z.string().optional(),
+});
+
+type SavedQueryFormValues = z.infer<typeof savedQuerySchema>;
+
+interface SaveQueryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (values: Omit<SavedQueryInput, "query">) => void;
+  initialValues?: Partial<Omit<SavedQueryInput, "query">>;
+  title?: string;
+  folders?: string[];
+}
+
+type SaveQueryFormProps = Pick<
+  SaveQueryDialogProps,
+  "onOpenChange" | "onSubmit" | "initialValues" | "folders"
+>;
+
+// The form only mounts while the dialog is open, so it always starts from
+// the given values.
+const SaveQueryForm: React.FC<SaveQueryFormProps> = ({
+  onOpenChange,
+  onSubmit,
+  initialValues,
+  folders = [],
+}) => {
+  const form = useForm<SavedQueryFormValues>({
+    resolver: zodResolver(savedQuerySchema),
+    defaultValues: {
+      name: initialValues?.name ?? "",
+      folder: initialValues?.folder ?? "",
+      tags: initialValues?.tags?.join(", ") ?? "",
+      description: initialValues?.description ?? "",
+    },
+    mode: "onChange",
+  });
+
+  const handleSubmit = (values: SavedQueryFormValues) => {
+    onSubmit({
+      name: values.name,
+      folder: values.folder?.trim() || undefined,
+      tags: Array.from(
+        new Set(
+          (values.tags ?? "")
+            .split(",")
+            .map((tag) => tag.trim())
+            .filter(Boolean)
+        )
+      ),
+      description: values.description?.trim() || undefined,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Monthly revenue" autoFocus {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="folder"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Folder</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="Reports"
+                  list="saved-query-folders"
+                  {...field}
+                />
+              </FormControl>
+              <datalist id="saved-query-folders">
+                {folders.map((folder) => (
+                  <option key={folder} value={folder} />
+                ))}
+              </datalist>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="tags"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Tags</FormLabel>
+              <FormControl>
+                <Input placeholder="finance, monthly" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="What does this query answer?"
+                  rows={3}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button type="submit">Save</Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+};
+
+const SaveQueryDialog: React.FC<SaveQueryDialogProps> = ({
+  open,
+  onOpenChange,
+  title = "Save Query",
+  ...formProps
+}) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Saved queries are kept in this browser and listed in the saved
+            queries panel.
+          </DialogDescription>
+        </DialogHeader>
+        <SaveQueryForm onOpenChange={onOpenChange} {...formProps} />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveQueryDialog;
@@ -1,9 +1,20 @@
 import React, { useRef, useEffect, useState, useCallback } from "react";
-import { Play, Loader2, Lightbulb, Command, Edit } from "lucide-react";
+import {
+  Play,
+  Loader2,
+  Lightbulb,
+  Command,
+  Edit,
+  Square,
+  Save,
+  ChevronDown,
+  Network,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useDuckStore } from "@/store";
 import { useTheme } from "../theme/theme-provider";
 import { cn } from "@/lib/utils";
+import { getExplainStatement } from "@/lib/connectionDrivers";
 import {
   createEditor,
   useMonacoConfig,
@@ -19,6 +30,16 @@ import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 import ConnectionPill from "@/components/common/ConnectionPill";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import SaveQueryDialog from "./SaveQueryDialog";
+import ParameterBar from "./ParameterBar";
 
 interface SqlEditorProps {
   tabId: string;
@@ -30,8 +51,21 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ tabId, title, className }) => {
   const editorRef = useRef<HTMLDivElement>(null);
   const editorInstanceRef = useRef<EditorInstance | null>(null);
   const { theme } = useTheme();
-  const { tabs, executeQuery, isExecuting, updateTabTitle, currentConnection } =
-    useDuckStore();
+  const {
+    tabs,
+    executeQuery,
+    explainQuery,
+    cancelQuery,
+    updateTabTitle,
+    currentConnection,
+    stopOnError,
+    setStopOnError,
+    savedQueries,
+    saveQuery,
+    updateSavedQuery,
+  } = useDuckStore();
+  const isExecuting = useDuckStore((state) => !!state.executingTabs[tabId]);
+  const canExplain = !!getExplainStatement(currentConnection);
   const monacoConfig = useMonacoConfig(theme);
 
   const currentTab = tabs.find((tab) => tab.id === tabId);
@@ -42,6 +76,21 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ tabId, title, className }) => {
 
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [currentTitle, setCurrentTitle] = useState(title);
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+
+  // The saved query this tab was opened from, if any
+  const savedQuery = savedQueries.find(
+    (query) => query.id === currentTab?.savedQueryId
+  );
+  const hasUnsavedChanges = !!savedQuery && savedQuery.query !== currentContent;
+  const folders = Array.from(
+    new Set(savedQueries.map((query) => query.folder).filter(Boolean))
+  ) as string[];
+
+  // Keep the title in sync when the saved query is renamed
+  useEffect(() => {
+    setCurrentTitle(title);
+  }, [title]);
 
   // Stable callback for query execution
   const stableExecuteCallback = useCallback(
@@ -51,6 +100,13 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ tabId, title, className }) => {
     [executeQuery]  // Add executeQuery as a dependency
   );
 
+  const stableExplainCallback = useCallback(
+    async (query: string, queryTabId: string) => {
+      await explainQuery(query, queryTabId);
+    },
+    [explainQuery]
+  );
+
   // Editor initialization effect
   useEffect(() => {
     if (!editorRef.current) return;
@@ -61,7 +117,8 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ tabId, title, className }) => {
       monacoConfig,
       currentContent,
       tabId,
-      stableExecuteCallback
+      stableExecuteCallback,
+      stableExplainCallback
     );
 
     // Cleanup function
@@ -71,7 +128,19 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ tabId, title, className }) => {
         editorInstanceRef.current = null;
       }
     };
-  }, [tabId, monacoConfig, stableExecuteCallback]); // Keep stableExecuteCallback
+  }, [tabId, monacoConfig, stableExecuteCallback, stableExplainCallback]);
+
+  // Enable the explain shortcut for the connection, again whenever the
+  // editor is recreated
+  useEffect(() => {
+    editorInstanceRef.current?.setCanExplain(canExplain);
+  }, [
+    canExplain,
+    tabId,
+    monacoConfig,
+    stableExecuteCallback,
+    stableExplainCallback,
+  ]);
 
   // Content sync effect
   useEffect(() => {
@@ -100,6 +169,44 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ tabId, title, className }) => {
     }
   };
 
+  // Explain the selection, or the whole query when nothing is selected
+  const handleExplainQuery = async () => {
+    const editor = editorInstanceRef.current?.editor;
+    if (!editor || isExecuting || !canExplain) return;
+
+    const selection = editor.getSelection();
+    const selectedText = selection
+      ? editor.getModel()?.getValueInRange(selection)
+      : "";
+    const query = selectedText?.trim() || editor.getValue().trim();
+    if (!query) return;
+
+    try {
+      await explainQuery(query, tabId);
+    } catch (error) {
+      console.error("Explain failed:", error);
+      toast.error("Explain failed");
+    }
+  };
+
+  const getEditorQuery = () =>
+    editorInstanceRef.current?.editor.getValue() ?? currentContent;
+
+  // Save over the saved query, or ask for details the first time
+  const handleSave = () => {
+    if (!savedQuery) {
+      setIsSaveDialogOpen(true);
+      return;
+    }
+    updateSavedQuery(savedQuery.id, { query: getEditorQuery() });
+    toast.success(`Saved "${savedQuery.name}"`);
+  };
+
+  const handleSaveAs = (values: Parameters<typeof saveQuery>[0]) => {
+    const newQuery = saveQuery(values, tabId);
+    toast.success(`Saved "${newQuery.name}"`);
+  };
+
   const handleTitleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setCurrentTitle(e.target.value);
   };
@@ -157,7 +264,17 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ tabId, title, className }) => {
           )}
         </div>
         <div className="flex items-center gap-4">
-          <div className="flex gap-2 text-sm text-muted-foreground">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`stop-on-error-${tabId}`}
+                checked={stopOnError}
+                onCheckedChange={setStopOnError}
+              />
+              <Label htmlFor={`stop-on-error-${tabId}`} className="text-xs">
+                Stop on error
+              </Label>
+            </div>
             <ConnectionPill connection={currentConnection} />
             <TooltipProvider>
               <Tooltip delayDuration={200}>
@@ -188,11 +305,71 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ tabId, title, className }) => {
                         Ctrl + Shift + Enter
                       </Badge>
                     </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm">Explain Analyze</span>
+                      <Badge variant="secondary" className="font-mono text-xs">
+                        Ctrl + Shift + E
+                      </Badge>
+                    </div>
                   </div>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
           </div>
+          <div className="flex items-center">
+            <Button
+              onClick={handleSave}
+              variant="outline"
+              className={cn(
+                "flex items-center gap-2",
+                savedQuery && "rounded-r-none border-r-0"
+              )}
+              title={
+                hasUnsavedChanges
+                  ? "Save changes to the saved query"
+                  : "Save query"
+              }
+            >
+              <Save className="h-4 w-4" />
+              Save
+              {hasUnsavedChanges && (
+                <span className="h-2 w-2 rounded-full bg-primary" />
+              )}
+            </Button>
+            {savedQuery && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    className="rounded-l-none"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onSelect={handleSave}>Save</DropdownMenuItem>
+                  <DropdownMenuItem onSelect={() => setIsSaveDialogOpen(true)}>
+                    Save as...
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+          <Button
+            onClick={handleExplainQuery}
+            disabled={isExecuting || !canExplain}
+            variant="outline"
+            className="flex items-center gap-2"
+            title={
+              canExplain
+                ? "Profile the query and show its plan"
+                : "This connection doesn't support Explain"
+            }
+          >
+            <Network className="h-4 w-4" />
+            Explain
+          </Button>
           <Button
             onClick={handleExecuteQuery}
             disabled={isExecuting}
@@ -206,12 +383,43 @@ const SqlEditor: React.FC<SqlEditorProps> = ({ tabId, title, className }) => {
             )}
             {isExecuting ? "Running..." : "Run Query"}
           </Button>
+          {isExecuting && (
+            <Button
+              onClick={() => cancelQuery(tabId)}
+              variant="destructive"
+              className="flex items-center gap-2"
+            >
+              <Square className="h-4 w-4" />
+              Cancel
+            </Button>
+          )}
         </div>
       </div>
 
       <div className="flex-1 relative">
         <div ref={editorRef} className="h-full w-full absolute inset-0" />
       </div>
+
+      <ParameterBar
+        tabId={tabId}
+        query={currentContent}
+        onRun={handleExecuteQuery}
+      />
+
+      <SaveQueryDialog
+        open={isSaveDialogOpen}
+        onOpenChange={setIsSaveDialogOpen}
+        title={savedQuery ? "Save Query As" : "Save Query"}
+        initialValues={
+          savedQuery
+            ? { ...savedQuery, name: `${savedQuery.name} (copy)` }
+            : { name: currentTitle }
+        }
+        folders={folders}
+        onSubmit={(values) =>
+          handleSaveAs({ ...values, query: getEditorQuery() })
+        }
+      />
     </div>
   );
 };
@@ -10,6 +10,7 @@ import { format } from "sql-formatter";
 // Types
 export interface EditorInstance {
   editor: editor.IStandaloneCodeEditor;
+  setCanExplain: (canExplain: boolean) => void;
   dispose: () => void;
 }
 
@@ -49,7 +50,8 @@ export const createEditor = (
   config: EditorConfig,
   initialContent: string,
   tabId: string,
-  executeQueryFn: (query: string, tabId: string) => Promise<void>
+  executeQueryFn: (query: string, tabId: string) => Promise<void>,
+  explainQueryFn?: (query: string, tabId: string) => Promise<void>
 ): EditorInstance => {
   const editor = monaco.editor.create(container, {
     ...config,
@@ -73,6 +75,10 @@ export const createEditor = (
     },
   });
 
+  // Turned off for connections that can't explain, which disables the
+  // explain action and its shortcut
+  const canExplain = editor.createContextKey<boolean>("canExplain", true);
+
   // Add commands
   editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter, async () => {
     const query = editor.getValue().trim();
@@ -124,6 +130,37 @@ export const createEditor = (
     },
   });
 
+  editor.addAction({
+    id: "explain-query",
+    label: "Explain Analyze Query",
+    keybindings: [
+      monaco.KeyMod.CtrlCmd | monaco.KeyMod.Shift | monaco.KeyCode.KeyE,
+    ],
+    contextMenuGroupId: "navigation",
+    precondition: "canExplain",
+    run: async (ed) => {
+      if (!explainQueryFn) return;
+      const selection = ed.getSelection();
+      const selectedText = selection
+        ? ed.getModel()?.getValueInRange(selection)
+        : "";
+      const query = selectedText?.trim() || ed.getValue().trim();
+      if (!query) {
+        toast.error("Please enter a query to explain");
+        return;
+      }
+      try {
+        await explainQueryFn(query, tabId);
+      } catch (err) {
+        toast.error(
+          `Explain failed: ${
+            err instanceof Error ? err.message : "Unknown error"
+          }`
+        );
+      }
+    },
+  });
+
   editor.addAction({
     id: "format-sql",
     label: "Format SQL",
@@ -157,6 +194,7 @@ export const createEditor = (
 
   return {
     editor,
+    setCanExplain: (value) => canExplain.set(value),
     dispose: () => {
       clearTimeout(timeoutId);
       disposable.dispose();
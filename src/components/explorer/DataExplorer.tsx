@@ -30,6 +30,7 @@ export default function DataExplorer() {
       children: db.tables.map((table) => ({
         name: table.name,
         type: "table",
+        schema: table.schema,
       })),
     }));
     return treeData;
@@ -51,9 +52,9 @@ export default function DataExplorer() {
           <div className="flex flex-col items-center justify-center gap-4 text-center">
             <div className="flex flex-col items-center gap-2">
               <p className="text-muted-foreground text-sm">
-                You are connected to an external server. The data explorer is
-                disabled for external connections. The external connection is
-                yet in alpha stage and will be improved in future updates.
+                You are connected to an external server, but no databases were
+                found on it. The external connection is yet in alpha stage and
+                will be improved in future updates.
               </p>
               <p>You can still work normally with the query editor.</p>
             </div>
@@ -13,15 +13,22 @@ import {
   Loader2,
   X,
   FileIcon,
+  FileArchive,
   Calendar,
   HardDrive,
   AlertTriangle,
   RefreshCw,
 } from "lucide-react";
-import { useDuckStore } from "@/store";
+import {
+  useDuckStore,
+  type FileImportOptions,
+  type ImportPreview,
+  type ImportResult,
+} from "@/store";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -30,7 +37,15 @@ import {
   SheetHeader,
   SheetTitle,
 } from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Tooltip,
   TooltipContent,
@@ -38,6 +53,28 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
+import {
+  canQueryInPlace,
+  DEFAULT_IMPORT_MODE,
+  formatImportResult,
+  canReadCompressed,
+  extractZipEntries,
+  getDefaultTableName,
+  EXCEL_RANGE_PATTERN,
+  getFileType,
+  getSheetTableName,
+  groupFolderFiles,
+  isCompressed,
+  listWorkbookSheets,
+  readDroppedFolder,
+  tableNameSchema,
+  toImportColumns,
+  type ImportColumn,
+} from "@/lib/fileImport";
+import UrlImporter from "./UrlImporter";
+import ImportPreviewPanel from "./ImportPreviewPanel";
+import ImportModeSelector, { type ImportModeState } from "./ImportModeSelector";
+import FolderDetails, { type FolderImport } from "./FolderDetails";
 import { Progress } from "@/components/ui/progress";
 import { z } from "zod";
 import { toast } from "sonner";
@@ -51,9 +88,11 @@ const ACCEPTED_FILE_TYPES = {
   "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": [
     ".xlsx",
   ],
+  "application/gzip": [".gz"],
+  "application/zstd": [".zst"],
+  "application/zip": [".zip"],
 } as const;
 
-const MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
 const SUPPORTED_FILE_EXTENSIONS = [
   "csv",
   "json",
@@ -69,6 +108,8 @@ type FileExtension = (typeof SUPPORTED_FILE_EXTENSIONS)[number];
 
 interface FileWithPreview extends File {
   preview?: string;
+  // Name of the ZIP archive the file was extracted from
+  archive?: string;
 }
 
 interface UploadError {
@@ -83,6 +124,7 @@ interface FileImportState {
   status: "pending" | "uploading" | "processing" | "success" | "error";
   progress?: number;
   error?: string;
+  result?: ImportResult;
 }
 
 // CSV import options
@@ -93,6 +135,34 @@ interface CsvImportOptions {
   header: boolean;
   delimiter: string;
   autoDetect: boolean;
+  // Dialect options left empty are sniffed from the file.
+  quote: string;
+  escape: string;
+  comment: string;
+  nullString: string;
+  dateFormat: string;
+  timestampFormat: string;
+  decimalSeparator: string;
+  encoding: string;
+  skip: number;
+  sampleSize: number;
+  storeRejects: boolean;
+}
+
+// Excel import options: the sheets to import, each into its own table
+interface ExcelImportOptions {
+  sheets: { name: string; tableName: string; include: boolean }[];
+  range: string;
+  header: boolean;
+  allVarchar: boolean;
+}
+
+// Preview of a file and the column overrides chosen from it
+interface FilePreviewState {
+  preview?: ImportPreview;
+  columns: ImportColumn[];
+  isLoading: boolean;
+  error?: string;
 }
 
 interface FileImporterProps {
@@ -110,8 +180,57 @@ interface FileDetailsProps {
   onRetry: () => void;
   csvOptions?: CsvImportOptions;
   onCsvOptionsChange?: (options: CsvImportOptions) => void;
+  excelOptions?: ExcelImportOptions;
+  onExcelOptionsChange?: (options: ExcelImportOptions) => void;
+  previewState?: FilePreviewState;
+  onColumnsChange: (columns: ImportColumn[]) => void;
+  onPreview: () => void;
+  importMode: ImportModeState;
+  onImportModeChange: (mode: ImportModeState) => void;
 }
 
+// Free-text CSV dialect options, with an example value as placeholder
+const CSV_DIALECT_FIELDS: {
+  key: keyof CsvImportOptions;
+  label: string;
+  placeholder: string;
+}[] = [
+  { key: "quote", label: "Quote", placeholder: '"' },
+  { key: "escape", label: "Escape", placeholder: '"' },
+  { key: "comment", label: "Comment prefix", placeholder: "#" },
+  { key: "nullString", label: "NULL string", placeholder: "NA" },
+  { key: "dateFormat", label: "Date format", placeholder: "%d/%m/%Y" },
+  {
+    key: "timestampFormat",
+    label: "Timestamp format",
+    placeholder: "%d/%m/%Y %H:%M:%S",
+  },
+  { key: "decimalSeparator", label: "Decimal separator", placeholder: "," },
+];
+
+const CSV_ENCODINGS = ["utf-8", "utf-16", "latin-1"] as const;
+
+// Default CSV import options
+const DEFAULT_CSV_OPTIONS: CsvImportOptions = {
+  ignoreErrors: true,
+  nullPadding: true,
+  allVarchar: false,
+  header: true,
+  delimiter: ",",
+  autoDetect: true,
+  quote: "",
+  escape: "",
+  comment: "",
+  nullString: "",
+  dateFormat: "",
+  timestampFormat: "",
+  decimalSeparator: "",
+  encoding: "utf-8",
+  skip: 0,
+  sampleSize: 0,
+  storeRejects: false,
+};
+
 // Utility Functions
 const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return "0 Bytes";
@@ -121,6 +240,52 @@ const formatFileSize = (bytes: number): string => {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
 };
 
+const isSupportedFile = (fileName: string): boolean => {
+  const fileType = getFileType(fileName) as FileExtension;
+  return (
+    SUPPORTED_FILE_EXTENSIONS.includes(fileType) &&
+    (!isCompressed(fileName) || canReadCompressed(fileType))
+  );
+};
+
+// Replaces ZIP archives with the importable files they contain
+const expandArchives = async (files: File[]): Promise<FileWithPreview[]> => {
+  const expanded = await Promise.all(
+    files.map(async (file): Promise<FileWithPreview[]> => {
+      if (getFileType(file.name) !== "zip") return [file];
+      try {
+        const entries = await extractZipEntries(file, isSupportedFile);
+        if (entries.length === 0) {
+          toast.warning(`${file.name} contains no files to import`);
+        }
+        return entries.map((entry) =>
+          Object.assign(entry, { archive: file.name })
+        );
+      } catch (error) {
+        toast.error(
+          `Couldn't read ${file.name}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+        return [];
+      }
+    })
+  );
+  return expanded.flat();
+};
+
+// Options reading a workbook. The preview and the column overrides are for
+// the first sheet picked.
+const getExcelReadOptions = (
+  options?: ExcelImportOptions
+): FileImportOptions["excel"] =>
+  options && {
+    sheet: options.sheets.find((sheet) => sheet.include)?.name,
+    range: options.range.trim() || undefined,
+    header: options.header,
+    allVarchar: options.allVarchar,
+  };
+
 const getFileIcon = (fileType: string) => {
   const iconProps = { className: "w-8 h-8" };
   switch (fileType.toLowerCase()) {
@@ -141,16 +306,6 @@ const getFileIcon = (fileType: string) => {
   }
 };
 
-// Zod Schema for Table Name Validation
-const tableNameSchema = z
-  .string()
-  .trim()
-  .min(1, "Table name cannot be empty")
-  .regex(
-    /^[a-zA-Z0-9_]+$/,
-    "Table name can only contain letters, numbers, and underscores"
-  );
-
 const FileDetails: React.FC<FileDetailsProps> = ({
   file,
   tableName,
@@ -160,12 +315,39 @@ const FileDetails: React.FC<FileDetailsProps> = ({
   onRetry,
   csvOptions,
   onCsvOptionsChange,
+  excelOptions,
+  onExcelOptionsChange,
+  previewState,
+  onColumnsChange,
+  onPreview,
+  importMode,
+  onImportModeChange,
 }) => {
+  const isPersistent = useDuckStore((state) => state.isPersistent);
   const [tableNameError, setTableNameError] = useState<string | null>(null);
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
-  const fileType = file.name.split(".").pop()?.toLowerCase() || "";
+  const fileType = getFileType(file.name);
   const lastModified = new Date(file.lastModified);
   const isCsvFile = fileType === "csv";
+  const isBusy =
+    status.status === "uploading" || status.status === "processing";
+  // Workbooks with several sheets name a table per sheet.
+  const sheets = excelOptions?.sheets ?? [];
+  const hasSheetList = sheets.length > 1;
+  const pickedSheets = sheets.filter((sheet) => sheet.include);
+  const range = excelOptions?.range.trim() ?? "";
+
+  const updateSheet = (
+    index: number,
+    update: Partial<ExcelImportOptions["sheets"][number]>
+  ) =>
+    excelOptions &&
+    onExcelOptionsChange?.({
+      ...excelOptions,
+      sheets: sheets.map((sheet, i) =>
+        i === index ? { ...sheet, ...update } : sheet
+      ),
+    });
 
   useEffect(() => {
     try {
@@ -222,7 +404,21 @@ const FileDetails: React.FC<FileDetailsProps> = ({
 
                 <span className="uppercase px-2 py-0.5 rounded text-xs">
                   {fileType}
+                  {isCompressed(file.name) &&
+                    ` (${file.name.split(".").pop()?.toLowerCase()})`}
                 </span>
+
+                {file.archive && (
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger className="flex items-center gap-1">
+                        <FileArchive className="w-4 h-4" />
+                        {file.archive}
+                      </TooltipTrigger>
+                      <TooltipContent>Extracted from archive</TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                )}
               </div>
             </div>
             <div className="flex items-center gap-2">
@@ -247,26 +443,172 @@ const FileDetails: React.FC<FileDetailsProps> = ({
             </div>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor={`table-${file.name}`}>Table Name</Label>
-            <Input
-              id={`table-${file.name}`}
-              value={tableName}
-              required
-              onChange={(e) => onTableNameChange(e.target.value)}
-              placeholder="Enter table name"
-              className="max-w-md p-2 ml-1"
+          {!hasSheetList && (
+            <div className="space-y-2">
+              <Label htmlFor={`table-${file.name}`}>Table Name</Label>
+              <Input
+                id={`table-${file.name}`}
+                value={tableName}
+                required
+                onChange={(e) => onTableNameChange(e.target.value)}
+                placeholder="Enter table name"
+                className="max-w-md p-2 ml-1"
+                disabled={
+                  status.status === "uploading" ||
+                  status.status === "processing"
+                }
+              />
+              {tableNameError && (
+                <p className="text-sm text-red-500">{tableNameError}</p>
+              )}
+              <p className="text-sm text-gray-500">
+                This name will be used to reference the table in SQL queries
+              </p>
+            </div>
+          )}
+
+          {excelOptions && onExcelOptionsChange && (
+            <div className="space-y-3">
+              {hasSheetList && (
+                <div className="space-y-2">
+                  <h4 className="font-medium text-sm">Sheets</h4>
+                  {sheets.map((sheet, index) => {
+                    const nameResult = tableNameSchema.safeParse(
+                      sheet.tableName
+                    );
+                    return (
+                      <div key={sheet.name} className="space-y-1">
+                        <div className="flex items-center gap-3">
+                          <Checkbox
+                            id={`sheet-${file.name}-${index}`}
+                            checked={sheet.include}
+                            onCheckedChange={(checked) =>
+                              updateSheet(index, { include: checked === true })
+                            }
+                            disabled={isBusy}
+                          />
+                          <Label
+                            htmlFor={`sheet-${file.name}-${index}`}
+                            className="text-sm w-40 truncate"
+                          >
+                            {sheet.name}
+                          </Label>
+                          <Input
+                            value={sheet.tableName}
+                            onChange={(e) =>
+                              updateSheet(index, { tableName: e.target.value })
+                            }
+                            placeholder="Table name"
+                            aria-label={`Table name for ${sheet.name}`}
+                            className="h-8 max-w-xs"
+                            disabled={isBusy || !sheet.include}
+                          />
+                        </div>
+                        {sheet.include && !nameResult.success && (
+                          <p className="text-sm text-red-500">
+                            {nameResult.error.errors[0].message}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                  <p className="text-sm text-gray-500">
+                    {pickedSheets.length === 0
+                      ? "Pick at least one sheet to import."
+                      : pickedSheets.length > 1
+                        ? `Each sheet is imported into its own table. The preview shows ${pickedSheets[0].name}; column changes only apply to it.`
+                        : "The sheet is imported into the table named next to it."}
+                  </p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor={`range-${file.name}`} className="text-sm">
+                    Cell range
+                  </Label>
+                  <Input
+                    id={`range-${file.name}`}
+                    value={excelOptions.range}
+                    onChange={(e) =>
+                      onExcelOptionsChange({
+                        ...excelOptions,
+                        range: e.target.value.toUpperCase(),
+                      })
+                    }
+                    placeholder="A1:F100"
+                    className="h-8"
+                    disabled={isBusy}
+                  />
+                  {range && !EXCEL_RANGE_PATTERN.test(range) && (
+                    <p className="text-sm text-red-500">
+                      Use a range like A1:F100
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-2 pt-6">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`excel-header-${file.name}`}
+                      checked={excelOptions.header}
+                      onCheckedChange={(checked) =>
+                        onExcelOptionsChange({
+                          ...excelOptions,
+                          header: checked === true,
+                        })
+                      }
+                      disabled={isBusy}
+                    />
+                    <Label
+                      htmlFor={`excel-header-${file.name}`}
+                      className="text-sm"
+                    >
+                      Has header row
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`excel-all-varchar-${file.name}`}
+                      checked={excelOptions.allVarchar}
+                      onCheckedChange={(checked) =>
+                        onExcelOptionsChange({
+                          ...excelOptions,
+                          allVarchar: checked === true,
+                        })
+                      }
+                      disabled={isBusy}
+                    />
+                    <Label
+                      htmlFor={`excel-all-varchar-${file.name}`}
+                      className="text-sm"
+                    >
+                      Read all columns as text
+                    </Label>
+                  </div>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Leave the range empty to read the cells the sheet uses.
+              </p>
+            </div>
+          )}
+
+          {fileType !== "duckdb" && (
+            <ImportModeSelector
+              id={`mode-${file.name}`}
+              tableName={
+                hasSheetList ? (pickedSheets[0]?.tableName ?? "") : tableName
+              }
+              value={importMode}
+              onChange={onImportModeChange}
+              columns={previewState?.columns ?? []}
+              // A saved view would outlive access to the file.
+              allowView={canQueryInPlace(fileType) && !isPersistent}
               disabled={
                 status.status === "uploading" || status.status === "processing"
               }
             />
-            {tableNameError && (
-              <p className="text-sm text-red-500">{tableNameError}</p>
-            )}
-            <p className="text-sm text-gray-500">
-              This name will be used to reference the table in SQL queries
-            </p>
-          </div>
+          )}
 
           {/* CSV import options */}
           {isCsvFile && csvOptions && (
@@ -354,6 +696,30 @@ const FileDetails: React.FC<FileDetailsProps> = ({
                       </Label>
                     </div>
 
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id={`store-rejects-${file.name}`}
+                        checked={
+                          csvOptions.ignoreErrors && csvOptions.storeRejects
+                        }
+                        onChange={(e) =>
+                          handleCsvOptionChange(
+                            "storeRejects",
+                            e.target.checked
+                          )
+                        }
+                        disabled={isBusy || !csvOptions.ignoreErrors}
+                        className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                      />
+                      <Label
+                        htmlFor={`store-rejects-${file.name}`}
+                        className="text-sm"
+                      >
+                        Keep rejected rows
+                      </Label>
+                    </div>
+
                     <div className="flex items-center space-x-2">
                       <input
                         type="checkbox"
@@ -403,11 +769,130 @@ const FileDetails: React.FC<FileDetailsProps> = ({
                       Common values: , (comma), ; (semicolon), tab, pipe (|)
                     </p>
                   </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    {CSV_DIALECT_FIELDS.map(({ key, label, placeholder }) => (
+                      <div key={key} className="space-y-1">
+                        <Label
+                          htmlFor={`${key}-${file.name}`}
+                          className="text-sm"
+                        >
+                          {label}
+                        </Label>
+                        <Input
+                          id={`${key}-${file.name}`}
+                          value={csvOptions[key] as string}
+                          onChange={(e) =>
+                            handleCsvOptionChange(key, e.target.value)
+                          }
+                          placeholder={placeholder}
+                          className="h-8"
+                          disabled={isBusy}
+                        />
+                      </div>
+                    ))}
+
+                    <div className="space-y-1">
+                      <Label
+                        htmlFor={`encoding-${file.name}`}
+                        className="text-sm"
+                      >
+                        Encoding
+                      </Label>
+                      <Select
+                        value={csvOptions.encoding}
+                        onValueChange={(value) =>
+                          handleCsvOptionChange("encoding", value)
+                        }
+                        disabled={isBusy}
+                      >
+                        <SelectTrigger
+                          id={`encoding-${file.name}`}
+                          className="h-8"
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CSV_ENCODINGS.map((encoding) => (
+                            <SelectItem key={encoding} value={encoding}>
+                              {encoding.toUpperCase()}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label htmlFor={`skip-${file.name}`} className="text-sm">
+                        Skip lines
+                      </Label>
+                      <Input
+                        id={`skip-${file.name}`}
+                        type="number"
+                        min={0}
+                        value={csvOptions.skip}
+                        onChange={(e) =>
+                          handleCsvOptionChange(
+                            "skip",
+                            Math.max(0, parseInt(e.target.value) || 0)
+                          )
+                        }
+                        className="h-8"
+                        disabled={isBusy}
+                      />
+                    </div>
+
+                    <div className="space-y-1">
+                      <Label
+                        htmlFor={`sample-size-${file.name}`}
+                        className="text-sm"
+                      >
+                        Sample size
+                      </Label>
+                      <Input
+                        id={`sample-size-${file.name}`}
+                        type="number"
+                        min={-1}
+                        value={csvOptions.sampleSize || ""}
+                        onChange={(e) =>
+                          handleCsvOptionChange(
+                            "sampleSize",
+                            Math.max(-1, parseInt(e.target.value) || 0)
+                          )
+                        }
+                        placeholder="20480"
+                        className="h-8"
+                        disabled={isBusy}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Empty options are detected from the file. Dates and
+                    timestamps use strftime formats; a sample size of -1 reads
+                    the whole file to detect types.
+                  </p>
                 </div>
               )}
             </div>
           )}
 
+          {fileType !== "duckdb" && (
+            <ImportPreviewPanel
+              id={`preview-${file.name}`}
+              preview={previewState?.preview}
+              columns={previewState?.columns ?? []}
+              onColumnsChange={onColumnsChange}
+              onRefresh={onPreview}
+              isLoading={previewState?.isLoading ?? false}
+              error={previewState?.error}
+              disabled={
+                status.status === "uploading" ||
+                status.status === "processing" ||
+                status.status === "success"
+              }
+            />
+          )}
+
           {status.status === "uploading" && status.progress !== undefined && (
             <div className="flex flex-col space-y-2">
               <span className="text-sm text-gray-500">
@@ -420,7 +905,10 @@ const FileDetails: React.FC<FileDetailsProps> = ({
           {status.status === "success" && (
             <div className="flex items-center gap-2 text-green-600 bg-green-50 p-2 rounded max-w-md ">
               <FileCheck className="w-4 h-4" />
-              <span className="text-sm">Successfully imported</span>
+              <span className="text-sm">
+                Successfully imported
+                {status.result && `: ${formatImportResult(status.result)}`}
+              </span>
             </div>
           )}
 
@@ -440,7 +928,7 @@ const FileImporter: React.FC<FileImporterProps> = ({
   isSheetOpen,
   setIsSheetOpen,
 }) => {
-  const { importFile } = useDuckStore();
+  const { importFile, previewImportFile } = useDuckStore();
   const [files, setFiles] = useState<FileWithPreview[]>([]);
   const [tableNames, setTableNames] = useState<Record<string, string>>({});
   const [isUploading, setIsUploading] = useState(false);
@@ -451,20 +939,21 @@ const FileImporter: React.FC<FileImporterProps> = ({
   const [csvOptions, setCsvOptions] = useState<
     Record<string, CsvImportOptions>
   >({});
+  const [excelOptions, setExcelOptions] = useState<
+    Record<string, ExcelImportOptions>
+  >({});
+  const [previews, setPreviews] = useState<Record<string, FilePreviewState>>(
+    {}
+  );
+  const [importModes, setImportModes] = useState<
+    Record<string, ImportModeState>
+  >({});
+  const [folders, setFolders] = useState<FolderImport[]>([]);
   const [isDragActive, setIsDragActive] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
-  // Default CSV import options
-  const defaultCsvOptions: CsvImportOptions = {
-    ignoreErrors: true,
-    nullPadding: true,
-    allVarchar: false,
-    header: true,
-    delimiter: ",",
-    autoDetect: true,
-  };
-
   const hasFilesToImport = useMemo(() => files.length > 0, [files]);
 
   const allFilesSuccess = useMemo(() => {
@@ -474,10 +963,7 @@ const FileImporter: React.FC<FileImporterProps> = ({
 
   const validateFile = (file: File): UploadError[] => {
     const errors: UploadError[] = [];
-    const extension = file.name
-      .split(".")
-      .pop()
-      ?.toLowerCase() as FileExtension;
+    const extension = getFileType(file.name) as FileExtension;
 
     if (!extension || !SUPPORTED_FILE_EXTENSIONS.includes(extension)) {
       errors.push({
@@ -487,20 +973,14 @@ const FileImporter: React.FC<FileImporterProps> = ({
         severity: "error",
       });
       toast.error(`Unsupported file type: .${extension}`);
-    }
-
-    if (file.size > MAX_FILE_SIZE) {
+    } else if (isCompressed(file.name) && !canReadCompressed(extension)) {
       errors.push({
         id: crypto.randomUUID(),
         file: file.name,
-        message: `File exceeds maximum size of ${formatFileSize(
-          MAX_FILE_SIZE
-        )}`,
+        message: `Compressed .${extension} files aren't supported`,
         severity: "error",
       });
-      toast.warning(
-        `File exceeds maximum size of ${formatFileSize(MAX_FILE_SIZE)}`
-      );
+      toast.error(`Compressed .${extension} files aren't supported`);
     }
 
     return errors;
@@ -519,13 +999,69 @@ const FileImporter: React.FC<FileImporterProps> = ({
     }));
   };
 
+  const updatePreview = useCallback(
+    (fileName: string, state: Partial<FilePreviewState>) => {
+      setPreviews((prev) => ({
+        ...prev,
+        [fileName]: {
+          ...(prev[fileName] ?? { columns: [], isLoading: false }),
+          ...state,
+        },
+      }));
+    },
+    []
+  );
+
+  // Reads the schema and first rows of a file. Columns are kept when the
+  // schema is unchanged, so the preview shows the overrides applied.
+  const loadPreview = useCallback(
+    async (
+      file: File,
+      options: {
+        csv?: CsvImportOptions;
+        excel?: ExcelImportOptions;
+        columns?: ImportColumn[];
+      }
+    ) => {
+      const fileType = getFileType(file.name);
+      if (fileType === "duckdb") return;
+      updatePreview(file.name, { isLoading: true, error: undefined });
+      try {
+        const columns = options.columns?.length ? options.columns : undefined;
+        const preview = await previewImportFile(file.name, file, fileType, {
+          csv: options.csv,
+          excel: getExcelReadOptions(options.excel),
+          columns,
+        });
+        const isSameSchema =
+          columns?.length === preview.schema.length &&
+          columns.every(
+            (column, index) =>
+              column.source === preview.schema[index].name &&
+              column.sourceType === preview.schema[index].type
+          );
+        updatePreview(file.name, {
+          preview,
+          columns: isSameSchema ? columns : toImportColumns(preview.schema),
+          isLoading: false,
+        });
+      } catch (error) {
+        updatePreview(file.name, {
+          isLoading: false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    },
+    [previewImportFile, updatePreview]
+  );
+
   const onFileChange = useCallback(
-    (newFiles: File[]) => {
+    async (newFiles: File[]) => {
       setErrors([]);
       const newErrors: UploadError[] = [];
       const validFiles: FileWithPreview[] = [];
 
-      newFiles.forEach((file) => {
+      (await expandArchives(newFiles)).forEach((file) => {
         const fileErrors = validateFile(file);
         if (fileErrors.length > 0) {
           newErrors.push(...fileErrors);
@@ -547,10 +1083,7 @@ const FileImporter: React.FC<FileImporterProps> = ({
       const newTableNames = validFiles.reduce<Record<string, string>>(
         (acc, file) => ({
           ...acc,
-          [file.name]: file.name
-            .replace(/\.[^/.]+$/, "")
-            .replace(/[^a-zA-Z0-9_]/g, "_")
-            .toLowerCase(),
+          [file.name]: getDefaultTableName(file.name),
         }),
         {}
       );
@@ -560,9 +1093,8 @@ const FileImporter: React.FC<FileImporterProps> = ({
       // Initialize CSV options for any CSV files
       const newCsvOptions = validFiles.reduce<Record<string, CsvImportOptions>>(
         (acc, file) => {
-          const extension = file.name.split(".").pop()?.toLowerCase();
-          if (extension === "csv") {
-            acc[file.name] = { ...defaultCsvOptions };
+          if (getFileType(file.name) === "csv") {
+            acc[file.name] = { ...DEFAULT_CSV_OPTIONS };
           }
           return acc;
         },
@@ -571,6 +1103,42 @@ const FileImporter: React.FC<FileImporterProps> = ({
 
       setCsvOptions((prev) => ({ ...prev, ...newCsvOptions }));
 
+      // Sheets are listed once read; until then the first sheet is previewed.
+      const workbooks = validFiles.filter(
+        (file) => getFileType(file.name) === "xlsx"
+      );
+      setExcelOptions((prev) => ({
+        ...prev,
+        ...Object.fromEntries(
+          workbooks.map((file) => [
+            file.name,
+            { sheets: [], range: "", header: true, allVarchar: false },
+          ])
+        ),
+      }));
+      workbooks.forEach(async (file) => {
+        try {
+          const sheets = await listWorkbookSheets(file);
+          setExcelOptions((prev) => ({
+            ...prev,
+            [file.name]: {
+              ...prev[file.name],
+              sheets: sheets.map((name, index) => ({
+                name,
+                tableName: getSheetTableName(file.name, name),
+                include: index === 0,
+              })),
+            },
+          }));
+        } catch (error) {
+          toast.warning(
+            `Couldn't list the sheets of ${file.name}, the first one will be imported: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          );
+        }
+      });
+
       const initialImportStates = validFiles.reduce<
         Record<string, FileImportState>
       >((acc, file) => {
@@ -582,21 +1150,71 @@ const FileImporter: React.FC<FileImporterProps> = ({
       }, {});
 
       setImportStates((prev) => ({ ...prev, ...initialImportStates }));
+
+      validFiles.forEach((file) =>
+        loadPreview(file, { csv: newCsvOptions[file.name] })
+      );
     },
-    [toast]
+    [loadPreview]
   );
 
+  // A folder dropped again replaces the one already listed
+  const addFolder = (folder: FolderImport) =>
+    setFolders((prev) => [
+      ...prev.filter(({ name }) => name !== folder.name),
+      folder,
+    ]);
+
   const handleDrop = useCallback(
     (event: React.DragEvent<HTMLDivElement>) => {
       event.preventDefault();
       setIsDragActive(false);
       if (!event.dataTransfer.files || event.dataTransfer.files.length === 0)
         return;
-      onFileChange(Array.from(event.dataTransfer.files));
+      // Entries must be read during the drop event, before any await.
+      const entries = Array.from(event.dataTransfer.items).map((item) =>
+        item.webkitGetAsEntry()
+      );
+      const directories = entries.filter(
+        (entry): entry is FileSystemDirectoryEntry => !!entry?.isDirectory
+      );
+      if (directories.length === 0) {
+        onFileChange(Array.from(event.dataTransfer.files));
+        return;
+      }
+      onFileChange(
+        Array.from(event.dataTransfer.files).filter(
+          (_, index) => !entries[index]?.isDirectory
+        )
+      );
+      directories.forEach(async (directory) => {
+        try {
+          addFolder({
+            name: directory.name,
+            files: await readDroppedFolder(directory),
+          });
+        } catch (error) {
+          toast.error(
+            `Couldn't read folder ${directory.name}: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          );
+        }
+      });
     },
     [onFileChange]
   );
 
+  const handleFolderInputChange = (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const picked = Array.from(event.target.files ?? []);
+    Object.entries(groupFolderFiles(picked)).forEach(([name, files]) =>
+      addFolder({ name, files })
+    );
+    event.target.value = "";
+  };
+
   const handleDragOver = useCallback(
     (event: React.DragEvent<HTMLDivElement>) => {
       event.preventDefault();
@@ -634,14 +1252,31 @@ const FileImporter: React.FC<FileImporterProps> = ({
         const state = importStates[file.name];
         if (state?.status === "success") return;
 
-        let cleanTableName = tableNames[file.name];
+        // Each sheet picked from a workbook goes into its own table.
+        const excel = excelOptions[file.name];
+        const targets =
+          excel && excel.sheets.length > 1
+            ? excel.sheets
+                .filter((sheet) => sheet.include)
+                .map(({ name, tableName }) => ({ sheet: name, tableName }))
+            : [
+                {
+                  sheet: excel?.sheets[0]?.name,
+                  tableName: tableNames[file.name],
+                },
+              ];
         try {
-          tableNameSchema.parse(cleanTableName);
+          if (targets.length === 0) {
+            throw new Error("Pick at least one sheet to import");
+          }
+          targets.forEach(({ tableName }) => tableNameSchema.parse(tableName));
         } catch (error) {
           const errorMessage =
             error instanceof z.ZodError
               ? error.errors[0].message
-              : "Invalid table name";
+              : error instanceof Error
+                ? error.message
+                : "Invalid table name";
           setErrors((prev) => [
             ...prev,
             {
@@ -662,28 +1297,55 @@ const FileImporter: React.FC<FileImporterProps> = ({
         updateImportState(file.name, { status: "processing" });
 
         try {
-          const fileType = file.name
-            .split(".")
-            .pop()
-            ?.toLowerCase() as FileExtension;
-          const arrayBuffer = await file.arrayBuffer();
+          const fileType = getFileType(file.name) as FileExtension;
 
           // Add options for CSV files
-          const importOptions: Record<string, any> = {};
+          const importOptions: Record<string, any> = {
+            ...(importModes[file.name] ?? DEFAULT_IMPORT_MODE),
+          };
           if (fileType === "csv" && csvOptions[file.name]) {
             importOptions.csv = csvOptions[file.name];
           }
+          if (previews[file.name]?.columns.length) {
+            importOptions.columns = previews[file.name].columns;
+          }
 
-          await importFile(
-            file.name,
-            arrayBuffer,
-            cleanTableName,
-            fileType,
-            undefined,
-            importOptions
+          const results: (ImportResult | undefined)[] = [];
+          for (const [index, { sheet, tableName }] of targets.entries()) {
+            results.push(
+              await importFile(
+                file.name,
+                file,
+                tableName,
+                fileType,
+                undefined,
+                {
+                  ...importOptions,
+                  columns: index === 0 ? importOptions.columns : undefined,
+                  excel:
+                    fileType === "xlsx"
+                      ? { ...getExcelReadOptions(excel), sheet }
+                      : undefined,
+                }
+              )
+            );
+          }
+          const result =
+            results.length === 1
+              ? results[0]
+              : results.reduce<ImportResult>(
+                  (total, sheetResult) => ({
+                    inserted: total.inserted + (sheetResult?.inserted ?? 0),
+                    updated: total.updated + (sheetResult?.updated ?? 0),
+                  }),
+                  { inserted: 0, updated: 0 }
+                );
+          updateImportState(file.name, { status: "success", result });
+          toast.success(
+            result
+              ? `Imported ${file.name}: ${formatImportResult(result)}`
+              : `Successfully imported ${file.name}`
           );
-          updateImportState(file.name, { status: "success" });
-          toast.success(`Successfully imported ${file.name}`);
         } catch (e) {
           const errorMessage = e instanceof Error ? e.message : "Unknown error";
           updateImportState(file.name, {
@@ -745,6 +1407,16 @@ const FileImporter: React.FC<FileImporterProps> = ({
         return newNames;
       });
       setErrors((prev) => prev.filter((error) => error.file !== fileName));
+      setPreviews((prev) => {
+        const newPreviews = { ...prev };
+        delete newPreviews[fileName];
+        return newPreviews;
+      });
+      setImportModes((prev) => {
+        const newModes = { ...prev };
+        delete newModes[fileName];
+        return newModes;
+      });
       setImportStates((prev) => {
         const newStates = { ...prev };
         delete newStates[fileName];
@@ -793,168 +1465,267 @@ const FileImporter: React.FC<FileImporterProps> = ({
           <SheetTitle>Import Data Files</SheetTitle>
         </SheetHeader>
         <Separator className="my-4" />
-        <CardContent className="space-y-4">
-          <div
-            onDrop={handleDrop}
-            onDragOver={handleDragOver}
-            onDragLeave={handleDragLeave}
-            className={cn(
-              "border-2 border-dashed rounded-lg p-8 text-center cursor-pointer",
-              "transition-colors duration-200 min-h-[200px] flex flex-col items-center justify-center",
-              isDragActive
-                ? "border-[#ffe814] bg-[#ffe814]/10"
-                : "border-gray-300 hover:border-[#ffe814] hover:bg-[#ffe814]/10"
-            )}
-          >
-            <Input
-              type="file"
-              multiple
-              hidden
-              ref={fileInputRef}
-              accept={Object.values(ACCEPTED_FILE_TYPES).flat().join(",")}
-              onChange={handleFileInputChange}
-            />
-            <Upload
-              className={cn(
-                "w-12 h-12 mb-4 mt-4",
-                isDragActive ? "text-[#ffe814]" : "text-[#a0aec0]"
-              )}
-            />
-            {isDragActive ? (
-              <p className="text-blue-500 font-medium">
-                Drop the files here ...
-              </p>
-            ) : (
-              <>
-                <div className="space-y-2">
-                  <p className="font-medium">
-                    Drag & drop files here, or
-                    <div>
-                      <Button
-                        variant="outline"
-                        className="mt-2"
-                        onClick={() => fileInputRef.current?.click()}
-                      >
-                        Select Files
-                      </Button>
-                    </div>
-                  </p>
-                  <p className="text-sm text-gray-500">
-                    Supported formats: CSV, JSON, Parquet, Arrow and DuckDB
-                  </p>
-                  <p className="text-xs text-gray-400">
-                    Maximum file size: {formatFileSize(MAX_FILE_SIZE)}
+        <Tabs defaultValue="files">
+          <TabsList className="mx-6">
+            <TabsTrigger value="files">Files</TabsTrigger>
+            <TabsTrigger value="url">From URL</TabsTrigger>
+          </TabsList>
+          <TabsContent value="files">
+            <CardContent className="space-y-4">
+              <div
+                onDrop={handleDrop}
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                className={cn(
+                  "border-2 border-dashed rounded-lg p-8 text-center cursor-pointer",
+                  "transition-colors duration-200 min-h-[200px] flex flex-col items-center justify-center",
+                  isDragActive
+                    ? "border-[#ffe814] bg-[#ffe814]/10"
+                    : "border-gray-300 hover:border-[#ffe814] hover:bg-[#ffe814]/10"
+                )}
+              >
+                <Input
+                  type="file"
+                  multiple
+                  hidden
+                  ref={fileInputRef}
+                  accept={Object.values(ACCEPTED_FILE_TYPES).flat().join(",")}
+                  onChange={handleFileInputChange}
+                />
+                <Input
+                  type="file"
+                  hidden
+                  ref={(input) => {
+                    // React doesn't know the attribute picking folders.
+                    input?.setAttribute("webkitdirectory", "");
+                    folderInputRef.current = input;
+                  }}
+                  onChange={handleFolderInputChange}
+                />
+                <Upload
+                  className={cn(
+                    "w-12 h-12 mb-4 mt-4",
+                    isDragActive ? "text-[#ffe814]" : "text-[#a0aec0]"
+                  )}
+                />
+                {isDragActive ? (
+                  <p className="text-blue-500 font-medium">
+                    Drop the files here ...
                   </p>
+                ) : (
+                  <>
+                    <div className="space-y-2">
+                      <p className="font-medium">
+                        Drag & drop files here, or
+                        <div>
+                          <Button
+                            variant="outline"
+                            className="mt-2"
+                            onClick={() => fileInputRef.current?.click()}
+                          >
+                            Select Files
+                          </Button>
+                          <Button
+                            variant="outline"
+                            className="mt-2 ml-2"
+                            onClick={() => folderInputRef.current?.click()}
+                          >
+                            Select Folder
+                          </Button>
+                        </div>
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        Supported formats: CSV, JSON, Parquet, Arrow, Excel and
+                        DuckDB, gzip or zstd compressed CSV and JSON, and ZIP
+                        archives of them
+                      </p>
+                      <p className="text-xs text-gray-400">
+                        Files are read in place, so large files aren't loaded
+                        into memory
+                      </p>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {hasFilesToImport && (
+                <div className="space-y-4">
+                  <h3 className="font-medium text-lg">Files to Import</h3>
+                  <div className="space-y-3">
+                    {files.map((file) => {
+                      const fileType = getFileType(file.name);
+                      const isCsvFile = fileType === "csv";
+
+                      return (
+                        <FileDetails
+                          key={file.name}
+                          file={file}
+                          tableName={tableNames[file.name] || ""}
+                          onTableNameChange={(name) =>
+                            setTableNames((prev) => ({
+                              ...prev,
+                              [file.name]: name,
+                            }))
+                          }
+                          status={
+                            importStates[file.name] || {
+                              fileName: file.name,
+                              status: "pending",
+                            }
+                          }
+                          csvOptions={
+                            isCsvFile ? csvOptions[file.name] : undefined
+                          }
+                          onCsvOptionsChange={
+                            isCsvFile
+                              ? (options) => {
+                                  setCsvOptions((prev) => ({
+                                    ...prev,
+                                    [file.name]: options,
+                                  }));
+                                  // The dialect changes what columns are read.
+                                  updatePreview(file.name, {
+                                    preview: undefined,
+                                    columns: [],
+                                    error: undefined,
+                                  });
+                                }
+                              : undefined
+                          }
+                          excelOptions={excelOptions[file.name]}
+                          onExcelOptionsChange={(options) => {
+                            const isSameRead =
+                              JSON.stringify(getExcelReadOptions(options)) ===
+                              JSON.stringify(
+                                getExcelReadOptions(excelOptions[file.name])
+                              );
+                            setExcelOptions((prev) => ({
+                              ...prev,
+                              [file.name]: options,
+                            }));
+                            // Another sheet or range has other columns.
+                            if (!isSameRead) {
+                              updatePreview(file.name, {
+                                preview: undefined,
+                                columns: [],
+                                error: undefined,
+                              });
+                            }
+                          }}
+                          previewState={previews[file.name]}
+                          onColumnsChange={(columns) =>
+                            updatePreview(file.name, { columns })
+                          }
+                          onPreview={() =>
+                            loadPreview(file, {
+                              csv: csvOptions[file.name],
+                              excel: excelOptions[file.name],
+                              columns: previews[file.name]?.columns,
+                            })
+                          }
+                          importMode={
+                            importModes[file.name] ?? DEFAULT_IMPORT_MODE
+                          }
+                          onImportModeChange={(mode) =>
+                            setImportModes((prev) => ({
+                              ...prev,
+                              [file.name]: mode,
+                            }))
+                          }
+                          onRemove={() => removeFile(file.name)}
+                          onRetry={() => retryFileUpload(file.name)}
+                        />
+                      );
+                    })}
+                  </div>
                 </div>
-              </>
-            )}
-          </div>
+              )}
 
-          {hasFilesToImport && (
-            <div className="space-y-4">
-              <h3 className="font-medium text-lg">Files to Import</h3>
-              <div className="space-y-3">
-                {files.map((file) => {
-                  const fileType = file.name.split(".").pop()?.toLowerCase();
-                  const isCsvFile = fileType === "csv";
-
-                  return (
-                    <FileDetails
-                      key={file.name}
-                      file={file}
-                      tableName={tableNames[file.name] || ""}
-                      onTableNameChange={(name) =>
-                        setTableNames((prev) => ({
-                          ...prev,
-                          [file.name]: name,
-                        }))
-                      }
-                      status={
-                        importStates[file.name] || {
-                          fileName: file.name,
-                          status: "pending",
-                        }
-                      }
-                      csvOptions={isCsvFile ? csvOptions[file.name] : undefined}
-                      onCsvOptionsChange={
-                        isCsvFile
-                          ? (options) =>
-                              setCsvOptions((prev) => ({
-                                ...prev,
-                                [file.name]: options,
-                              }))
-                          : undefined
+              {folders.length > 0 && (
+                <div className="space-y-4">
+                  <h3 className="font-medium text-lg">Folders to Import</h3>
+                  {folders.map((folder) => (
+                    <FolderDetails
+                      key={folder.name}
+                      folder={folder}
+                      onRemove={() =>
+                        setFolders((prev) =>
+                          prev.filter(({ name }) => name !== folder.name)
+                        )
                       }
-                      onRemove={() => removeFile(file.name)}
-                      onRetry={() => retryFileUpload(file.name)}
                     />
-                  );
-                })}
-              </div>
-            </div>
-          )}
+                  ))}
+                </div>
+              )}
 
-          {errors.length > 0 && (
-            <div className="space-y-2">
-              {errors.map((error) => (
-                <Alert
-                  key={error.id}
-                  variant={
-                    error.severity === "error" ? "destructive" : "default"
-                  }
-                >
-                  <AlertTitle className="flex items-center gap-2">
-                    {error.severity === "error" ? (
-                      <AlertTriangle className="h-4 w-4" />
+              {errors.length > 0 && (
+                <div className="space-y-2">
+                  {errors.map((error) => (
+                    <Alert
+                      key={error.id}
+                      variant={
+                        error.severity === "error" ? "destructive" : "default"
+                      }
+                    >
+                      <AlertTitle className="flex items-center gap-2">
+                        {error.severity === "error" ? (
+                          <AlertTriangle className="h-4 w-4" />
+                        ) : (
+                          <FileWarning className="h-4 w-4" />
+                        )}
+                        {error.severity === "error" ? "Error" : "Warning"}
+                      </AlertTitle>
+                      <AlertDescription>
+                        {error.file
+                          ? `${error.file}: ${error.message}`
+                          : error.message}
+                      </AlertDescription>
+                    </Alert>
+                  ))}
+                </div>
+              )}
+
+              {hasFilesToImport && (
+                <div className="flex gap-2">
+                  <Button
+                    onClick={handleFileUpload}
+                    disabled={isUploading}
+                    className="flex-1"
+                  >
+                    {isUploading ? (
+                      <>
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        Importing Files...
+                      </>
                     ) : (
-                      <FileWarning className="h-4 w-4" />
+                      <>
+                        <Upload className="w-4 h-4 mr-2" />
+                        Import {files.length}{" "}
+                        {files.length === 1 ? "File" : "Files"}
+                      </>
                     )}
-                    {error.severity === "error" ? "Error" : "Warning"}
-                  </AlertTitle>
-                  <AlertDescription>
-                    {error.file
-                      ? `${error.file}: ${error.message}`
-                      : error.message}
-                  </AlertDescription>
-                </Alert>
-              ))}
-            </div>
-          )}
+                  </Button>
 
-          {hasFilesToImport && (
-            <div className="flex gap-2">
-              <Button
-                onClick={handleFileUpload}
-                disabled={isUploading}
-                className="flex-1"
-              >
-                {isUploading ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Importing Files...
-                  </>
-                ) : (
-                  <>
-                    <Upload className="w-4 h-4 mr-2" />
-                    Import {files.length}{" "}
-                    {files.length === 1 ? "File" : "Files"}
-                  </>
-                )}
-              </Button>
-
-              {isUploading && (
-                <Button
-                  variant="destructive"
-                  onClick={handleCancelUpload}
-                  className="whitespace-nowrap"
-                >
-                  <X className="w-4 h-4 mr-2" />
-                  Cancel
-                </Button>
+                  {isUploading && (
+                    <Button
+                      variant="destructive"
+                      onClick={handleCancelUpload}
+                      className="whitespace-nowrap"
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
               )}
-            </div>
-          )}
-        </CardContent>
+            </CardContent>
+          </TabsContent>
+          <TabsContent value="url">
+            <CardContent>
+              <UrlImporter onImported={() => setIsSheetOpen(false)} />
+            </CardContent>
+          </TabsContent>
+        </Tabs>
       </SheetContent>
     </Sheet>
   );
@@ -0,0 +1,230 @@
+import React, { useMemo, useRef, useState } from "react";
+import { FileCheck, FolderOpen, Loader2, Upload, X } from "lucide-react";
+import { useDuckStore, type ImportProgress } from "@/store";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  detectImportFormat,
+  DEFAULT_IMPORT_MODE,
+  formatImportResult,
+  getDefaultTableName,
+  getHivePartitions,
+  pickFolderFormat,
+  tableNameSchema,
+  type FolderFile,
+} from "@/lib/fileImport";
+import { formatBytes } from "@/lib/utils";
+import { toast } from "sonner";
+import ImportModeSelector, { type ImportModeState } from "./ImportModeSelector";
+
+export interface FolderImport {
+  name: string;
+  files: FolderFile[];
+}
+
+interface FolderDetailsProps {
+  folder: FolderImport;
+  onRemove: () => void;
+}
+
+// Partition values listed before the rest are summarized.
+const MAX_PARTITION_VALUES = 5;
+
+const FolderDetails: React.FC<FolderDetailsProps> = ({ folder, onRemove }) => {
+  const { importFolder, isPersistent } = useDuckStore();
+  const [tableName, setTableName] = useState(getDefaultTableName(folder.name));
+  const [importMode, setImportMode] =
+    useState<ImportModeState>(DEFAULT_IMPORT_MODE);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const [isImported, setIsImported] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const format = useMemo(() => pickFolderFormat(folder.files), [folder]);
+  const matching = useMemo(
+    () =>
+      folder.files.filter(({ path }) => detectImportFormat(path) === format),
+    [folder, format]
+  );
+  const partitions = useMemo(
+    () => getHivePartitions(matching.map(({ path }) => path)),
+    [matching]
+  );
+  const totalSize = matching.reduce((size, { file }) => size + file.size, 0);
+  const nameResult = tableNameSchema.safeParse(tableName);
+  const isImporting = progress !== null;
+
+  const handleImport = async () => {
+    if (!nameResult.success) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setProgress({ stage: "Starting", loaded: 0, total: 1 });
+    try {
+      const result = await importFolder(
+        folder.name,
+        folder.files,
+        nameResult.data,
+        { ...importMode, onProgress: setProgress, signal: controller.signal }
+      );
+      setIsImported(true);
+      toast.success(
+        result
+          ? `Imported into ${nameResult.data}: ${formatImportResult(result)}`
+          : `Created view ${nameResult.data}`
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border p-4 shadow-sm">
+      <div className="flex items-start gap-4">
+        <FolderOpen className="w-8 h-8 flex-shrink-0" color="#ED8936" />
+
+        <div className="flex-grow space-y-3">
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="font-medium text-lg">{folder.name}</h3>
+              <p className="text-sm text-gray-600 mt-1">
+                {matching.length} {format?.toUpperCase()}{" "}
+                {matching.length === 1 ? "file" : "files"},{" "}
+                {formatBytes(totalSize)}
+                {folder.files.length > matching.length &&
+                  ` (${folder.files.length - matching.length} other files skipped)`}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onRemove}
+              disabled={isImporting}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+
+          {!format ? (
+            <p className="text-sm text-red-500">
+              The folder has no Parquet, CSV or JSON files.
+            </p>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <h4 className="font-medium text-sm">Partition Columns</h4>
+                {partitions.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No key=value directories found; the files are combined as
+                    they are.
+                  </p>
+                ) : (
+                  <ul className="text-sm space-y-1">
+                    {partitions.map((partition) => (
+                      <li key={partition.name}>
+                        <span className="font-mono">{partition.name}</span>
+                        <span className="text-gray-500">
+                          {" "}
+                          ({partition.values.length}{" "}
+                          {partition.values.length === 1 ? "value" : "values"}
+                          ):{" "}
+                          {partition.values
+                            .slice(0, MAX_PARTITION_VALUES)
+                            .join(", ")}
+                          {partition.values.length > MAX_PARTITION_VALUES &&
+                            ", ..."}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`folder-table-${folder.name}`}>
+                  Table Name
+                </Label>
+                <Input
+                  id={`folder-table-${folder.name}`}
+                  value={tableName}
+                  onChange={(e) => setTableName(e.target.value)}
+                  placeholder="Enter table name"
+                  className="max-w-md p-2 ml-1"
+                  disabled={isImporting}
+                />
+                {!nameResult.success && (
+                  <p className="text-sm text-red-500">
+                    {nameResult.error.errors[0].message}
+                  </p>
+                )}
+              </div>
+
+              <ImportModeSelector
+                id={`folder-${folder.name}`}
+                tableName={tableName}
+                value={importMode}
+                onChange={setImportMode}
+                columns={[]}
+                // A saved view would outlive access to the files.
+                allowView={!isPersistent}
+                disabled={isImporting}
+              />
+
+              {progress && (
+                <div className="flex flex-col space-y-2">
+                  <span className="text-sm text-gray-500 truncate">
+                    {progress.stage}... {progress.loaded}/{progress.total}
+                  </span>
+                  <Progress value={(progress.loaded / progress.total) * 100} />
+                </div>
+              )}
+
+              {isImported && !isImporting && (
+                <div className="flex items-center gap-2 text-green-600 bg-green-50 p-2 rounded max-w-md">
+                  <FileCheck className="w-4 h-4" />
+                  <span className="text-sm">Successfully imported</span>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button
+                  onClick={handleImport}
+                  disabled={!nameResult.success || isImporting}
+                  className="flex-1"
+                >
+                  {isImporting ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Importing Folder...
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="w-4 h-4 mr-2" />
+                      Import Folder
+                    </>
+                  )}
+                </Button>
+                {isImporting && importMode.mode !== "view" && (
+                  <Button
+                    variant="destructive"
+                    onClick={() => abortControllerRef.current?.abort()}
+                    className="whitespace-nowrap"
+                  >
+                    <X className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FolderDetails;
@@ -0,0 +1,144 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import { useDuckStore } from "@/store";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  checkSchemaCompatibility,
+  findTable,
+  IMPORT_MODES,
+  type ImportColumn,
+  type ImportMode,
+} from "@/lib/fileImport";
+
+export interface ImportModeState {
+  mode: ImportMode;
+  keyColumns: string[];
+}
+
+interface ImportModeSelectorProps {
+  id: string;
+  tableName: string;
+  value: ImportModeState;
+  onChange: (value: ImportModeState) => void;
+  // Columns of the file, once previewed, to check against the table.
+  columns: ImportColumn[];
+  // Offers querying the data in place as a view.
+  allowView: boolean;
+  disabled?: boolean;
+}
+
+const ImportModeSelector: React.FC<ImportModeSelectorProps> = ({
+  id,
+  tableName,
+  value,
+  onChange,
+  columns,
+  allowView,
+  disabled,
+}) => {
+  const { databases, currentDatabase } = useDuckStore();
+  const existing = findTable(databases, currentDatabase, tableName);
+  const intoExisting = value.mode === "append" || value.mode === "upsert";
+
+  const problems =
+    existing && intoExisting && columns.length > 0
+      ? checkSchemaCompatibility(
+          columns.filter((column) => column.include),
+          existing.columns,
+          value.mode === "upsert" ? value.keyColumns : []
+        )
+      : [];
+  const warning =
+    value.mode === "create" && existing
+      ? `Table ${existing.name} already exists.`
+      : value.mode === "replace" && existing
+        ? `The ${existing.rowCount.toLocaleString()} rows of ${existing.name} will be dropped.`
+        : intoExisting && !existing
+          ? `Table ${tableName} doesn't exist yet.`
+          : undefined;
+
+  const toggleKey = (column: string, checked: boolean) =>
+    onChange({
+      ...value,
+      keyColumns: checked
+        ? [...value.keyColumns, column]
+        : value.keyColumns.filter((key) => key !== column),
+    });
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={`${id}-mode`}>Import Mode</Label>
+      <Select
+        value={value.mode}
+        onValueChange={(mode) =>
+          onChange({ ...value, mode: mode as ImportMode })
+        }
+        disabled={disabled}
+      >
+        <SelectTrigger id={`${id}-mode`} className="max-w-md ml-1">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {IMPORT_MODES.filter(
+            (mode) => allowView || mode.value !== "view"
+          ).map((mode) => (
+            <SelectItem key={mode.value} value={mode.value}>
+              {mode.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-sm text-gray-500">
+        {IMPORT_MODES.find((mode) => mode.value === value.mode)?.description}
+      </p>
+
+      {value.mode === "upsert" && existing && (
+        <div className="space-y-1">
+          <Label className="text-sm">Key Columns</Label>
+          <div className="flex flex-wrap gap-3">
+            {existing.columns.map((column) => (
+              <div key={column.name} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${id}-key-${column.name}`}
+                  checked={value.keyColumns.includes(column.name)}
+                  onCheckedChange={(checked) =>
+                    toggleKey(column.name, checked === true)
+                  }
+                  disabled={disabled}
+                />
+                <Label
+                  htmlFor={`${id}-key-${column.name}`}
+                  className="text-sm font-normal"
+                >
+                  {column.name}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(warning || problems.length > 0) && (
+        <div className="flex items-start gap-2 text-amber-600 text-sm">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div>
+            {warning && <p>{warning}</p>}
+            {problems.map((problem) => (
+              <p key={problem}>{problem}</p>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportModeSelector;
@@ -0,0 +1,184 @@
+import React from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import type { ImportPreview } from "@/store";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { isNested } from "@/lib/arrow";
+import { COMMON_COLUMN_TYPES, type ImportColumn } from "@/lib/fileImport";
+
+interface ImportPreviewPanelProps {
+  id: string;
+  preview?: ImportPreview;
+  columns: ImportColumn[];
+  onColumnsChange: (columns: ImportColumn[]) => void;
+  onRefresh: () => void;
+  isLoading: boolean;
+  error?: string;
+  disabled?: boolean;
+}
+
+// Nested values are shown as JSON, which can't serialize BigInts itself.
+const formatPreviewValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return <span className="italic text-muted-foreground">NULL</span>;
+  }
+  if (isNested(value)) {
+    return JSON.stringify(value, (_, item) =>
+      typeof item === "bigint" ? item.toString() : item
+    );
+  }
+  return String(value);
+};
+
+const ImportPreviewPanel: React.FC<ImportPreviewPanelProps> = ({
+  id,
+  preview,
+  columns,
+  onColumnsChange,
+  onRefresh,
+  isLoading,
+  error,
+  disabled,
+}) => {
+  const updateColumn = (index: number, update: Partial<ImportColumn>) =>
+    onColumnsChange(
+      columns.map((column, i) =>
+        i === index ? { ...column, ...update } : column
+      )
+    );
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="flex justify-between items-center">
+        <h4 className="font-medium text-sm">Preview</h4>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRefresh}
+          disabled={isLoading || disabled}
+        >
+          {isLoading ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          {preview ? "Refresh Preview" : "Load Preview"}
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {columns.length > 0 && (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">Import</TableHead>
+                <TableHead>Column</TableHead>
+                <TableHead>Type</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {columns.map((column, index) => (
+                <TableRow key={column.source}>
+                  <TableCell>
+                    <Checkbox
+                      checked={column.include}
+                      onCheckedChange={(checked) =>
+                        updateColumn(index, { include: checked === true })
+                      }
+                      disabled={disabled}
+                      aria-label={`Import ${column.source}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={column.name}
+                      onChange={(e) =>
+                        updateColumn(index, { name: e.target.value })
+                      }
+                      disabled={disabled || !column.include}
+                      className="h-8"
+                    />
+                    {column.name !== column.source && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        from {column.source}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={column.type}
+                      onChange={(e) =>
+                        updateColumn(index, {
+                          type: e.target.value.toUpperCase(),
+                        })
+                      }
+                      list={`${id}-types`}
+                      disabled={disabled || !column.include}
+                      className="h-8 font-mono text-xs"
+                    />
+                    {column.type !== column.sourceType && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        detected {column.sourceType}
+                      </p>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <datalist id={`${id}-types`}>
+            {COMMON_COLUMN_TYPES.map((type) => (
+              <option key={type} value={type} />
+            ))}
+          </datalist>
+        </div>
+      )}
+
+      {preview && preview.result.columns.length > 0 && (
+        <div className="rounded-md border overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {preview.result.columns.map((column, index) => (
+                  <TableHead key={column} className="whitespace-nowrap">
+                    {column}
+                    <span className="ml-1 text-xs font-normal text-gray-500">
+                      {preview.result.columnTypes[index]}
+                    </span>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.result.data.map((row, rowIndex) => (
+                <TableRow key={rowIndex}>
+                  {preview.result.columns.map((column) => (
+                    <TableCell
+                      key={column}
+                      className="whitespace-nowrap max-w-[200px] truncate"
+                    >
+                      {formatPreviewValue(row[column])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportPreviewPanel;
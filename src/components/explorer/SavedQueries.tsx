@@ -0,0 +1,261 @@
+import React, { useMemo, useState } from "react";
+import {
+  BookMarked,
+  ChevronDown,
+  ChevronRight,
+  FileCode,
+  Folder,
+  MoreVertical,
+  Pencil,
+  SquarePen,
+  Trash,
+} from "lucide-react";
+import { toast } from "sonner";
+import { SavedQuery, useDuckStore } from "@/store";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import SaveQueryDialog from "@/components/editor/SaveQueryDialog";
+
+const UNFILED = "";
+
+interface SavedQueryItemProps {
+  savedQuery: SavedQuery;
+  onEdit: (savedQuery: SavedQuery) => void;
+}
+
+const SavedQueryItem: React.FC<SavedQueryItemProps> = ({
+  savedQuery,
+  onEdit,
+}) => {
+  const { openSavedQuery, updateSavedQuery, deleteSavedQuery } = useDuckStore();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(savedQuery.name);
+
+  const handleRename = () => {
+    setIsRenaming(false);
+    if (!name.trim()) {
+      setName(savedQuery.name);
+      toast.error("Name cannot be empty");
+      return;
+    }
+    if (name.trim() !== savedQuery.name) {
+      updateSavedQuery(savedQuery.id, { name: name.trim() });
+    }
+  };
+
+  const handleDelete = () => {
+    deleteSavedQuery(savedQuery.id);
+    toast.success(`Saved query "${savedQuery.name}" deleted`);
+  };
+
+  if (isRenaming) {
+    return (
+      <Input
+        className="h-7 text-xs ml-4 w-[calc(100%-1rem)]"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={handleRename}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            handleRename();
+          } else if (e.key === "Escape") {
+            setName(savedQuery.name);
+            setIsRenaming(false);
+          }
+        }}
+        autoFocus
+      />
+    );
+  }
+
+  return (
+    <div
+      className="group flex items-center py-1 px-2 ml-4 hover:bg-secondary hover:rounded-md cursor-pointer"
+      onClick={() => openSavedQuery(savedQuery.id)}
+      title={savedQuery.description || savedQuery.query}
+    >
+      <FileCode className="w-4 h-4 mr-2 flex-shrink-0" />
+      <div className="flex-grow min-w-0 text-xs">
+        <p className="truncate">{savedQuery.name}</p>
+        {savedQuery.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-1">
+            {savedQuery.tags.map((tag) => (
+              <Badge
+                key={tag}
+                variant="secondary"
+                className="px-1 py-0 text-[10px] font-normal"
+              >
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+          <Button size="icon" variant="ghost" className="h-6 w-6">
+            <MoreVertical className="w-4 h-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuItem onSelect={() => openSavedQuery(savedQuery.id)}>
+            <FileCode className="w-4 h-4 mr-2" />
+            Open
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setIsRenaming(true)}>
+            <Pencil className="w-4 h-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onEdit(savedQuery)}>
+            <SquarePen className="w-4 h-4 mr-2" />
+            Edit Details
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleDelete}>
+            <Trash className="w-4 h-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+export default function SavedQueries() {
+  const { savedQueries, updateSavedQuery } = useDuckStore();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [closedFolders, setClosedFolders] = useState<string[]>([]);
+  const [editingQuery, setEditingQuery] = useState<SavedQuery | null>(null);
+
+  const folders = useMemo(
+    () =>
+      Array.from(
+        new Set(savedQueries.map((query) => query.folder).filter(Boolean))
+      ).sort() as string[],
+    [savedQueries]
+  );
+
+  // Matching queries grouped by folder, unfiled ones last.
+  const groups = useMemo(() => {
+    const terms = searchTerm.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches = savedQueries.filter((savedQuery) => {
+      const text = [
+        savedQuery.name,
+        savedQuery.description,
+        savedQuery.folder,
+        savedQuery.query,
+        ...savedQuery.tags,
+      ]
+        .filter(Boolean)
+        .join(" ")
+        .toLowerCase();
+      return terms.every((term) => text.includes(term));
+    });
+    return [...folders, UNFILED]
+      .map((folder) => ({
+        folder,
+        queries: matches
+          .filter((query) => (query.folder ?? UNFILED) === folder)
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      }))
+      .filter((group) => group.queries.length > 0);
+  }, [savedQueries, folders, searchTerm]);
+
+  const toggleFolder = (folder: string) => {
+    setClosedFolders((closed) =>
+      closed.includes(folder)
+        ? closed.filter((name) => name !== folder)
+        : [...closed, folder]
+    );
+  };
+
+  return (
+    <Card className="h-full overflow-hidden border-none">
+      <CardHeader className="p-4 border-b">
+        <div className="flex items-center gap-2">
+          <BookMarked className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg font-semibold">Saved Queries</CardTitle>
+        </div>
+      </CardHeader>
+
+      <CardContent className="p-2 h-[calc(100%-60px)] overflow-y-auto">
+        {savedQueries.length > 0 ? (
+          <div className="space-y-2">
+            <Input
+              type="text"
+              placeholder="Search saved queries..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="m-auto w-[calc(100%-2rem)] focus:ring-0"
+            />
+            {groups.length === 0 && (
+              <p className="text-muted-foreground text-xs text-center py-4">
+                No saved queries match your search.
+              </p>
+            )}
+            <ul className="ml-2">
+              {groups.map(({ folder, queries }) => {
+                const isOpen = !!searchTerm || !closedFolders.includes(folder);
+                return (
+                  <li key={folder || "unfiled"}>
+                    {folder !== UNFILED || folders.length > 0 ? (
+                      <div
+                        className="flex items-center py-1 px-2 hover:bg-secondary hover:rounded-md cursor-pointer text-xs"
+                        onClick={() => toggleFolder(folder)}
+                      >
+                        {isOpen ? (
+                          <ChevronDown className="w-4 h-4 mr-1" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4 mr-1" />
+                        )}
+                        <Folder className="w-4 h-4 mr-2" />
+                        <span className="truncate">{folder || "Unfiled"}</span>
+                        <span className="ml-auto text-muted-foreground">
+                          {queries.length}
+                        </span>
+                      </div>
+                    ) : null}
+                    {isOpen &&
+                      queries.map((savedQuery) => (
+                        <SavedQueryItem
+                          key={savedQuery.id}
+                          savedQuery={savedQuery}
+                          onEdit={setEditingQuery}
+                        />
+                      ))}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        ) : (
+          <div className="flex flex-col items-center justify-center h-full gap-2 text-center">
+            <BookMarked className="h-8 w-8 text-muted-foreground" />
+            <p className="text-muted-foreground text-sm">
+              No saved queries yet. Use "Save" in the editor to keep a query
+              here.
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      <SaveQueryDialog
+        open={!!editingQuery}
+        onOpenChange={(open) => !open && setEditingQuery(null)}
+        title="Edit Saved Query"
+        initialValues={editingQuery ?? undefined}
+        folders={folders}
+        onSubmit={(values) => {
+          if (editingQuery) updateSavedQuery(editingQuery.id, values);
+        }}
+      />
+    </Card>
+  );
+}
@@ -25,10 +25,13 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { toast } from "sonner";
 import { useDuckStore } from "@/store";
+import { qualifyTableName } from "@/lib/sql";
 
 export interface TreeNodeData {
   name: string;
   type: "database" | "table" | "view";
+  // Schema of a table, when it's known.
+  schema?: string;
   children?: TreeNodeData[];
   query?: string;
 }
@@ -68,7 +71,11 @@ const TreeNode: React.FC<TreeNodeProps> = ({
 
   const handleQueryData = useCallback(
     (databaseName: string, tableName: string) => async () => {
-      const query = `SELECT * FROM "${databaseName}"."${tableName}" LIMIT 100`;
+      const query = `SELECT * FROM ${qualifyTableName(
+        databaseName,
+        tableName,
+        node.schema
+      )} LIMIT 100`;
 
       createTab("sql", query, {
         database: databaseName,
@@ -81,7 +88,7 @@ const TreeNode: React.FC<TreeNodeProps> = ({
       }
       toast.success(`Querying table "${tableName}"`);
     },
-    [createTab, executeQuery, toast]
+    [createTab, executeQuery, toast, node.schema]
   );
 
   const handleDeleteTable = useCallback(
@@ -104,7 +111,11 @@ const TreeNode: React.FC<TreeNodeProps> = ({
 
   const handleShowSchema = useCallback(
     (databaseName: string, tableName: string) => async () => {
-      const query = `DESCRIBE "${databaseName}"."${tableName}"`;
+      const query = `DESCRIBE ${qualifyTableName(
+        databaseName,
+        tableName,
+        node.schema
+      )}`;
 
       createTab("sql", query, {
         database: databaseName,
@@ -117,7 +128,7 @@ const TreeNode: React.FC<TreeNodeProps> = ({
       }
       toast.success(`Showing schema for table "${tableName}"`);
     },
-    [createTab, executeQuery, toast]
+    [createTab, executeQuery, toast, node.schema]
   );
 
   const contextMenuOptions = useMemo(
@@ -196,7 +207,12 @@ const TreeNode: React.FC<TreeNodeProps> = ({
               )}
               {getIcon}
               <div className="text-xs">
-                <p className="truncate"> {node.name}</p>
+                <p className="truncate">
+                  {" "}
+                  {node.schema && node.schema !== "main"
+                    ? `${node.schema}.${node.name}`
+                    : node.name}
+                </p>
               </div>
             </div>
             <div className="flex items-center">
@@ -0,0 +1,221 @@
+import React, { useMemo, useRef, useState } from "react";
+import { Globe, Loader2, X } from "lucide-react";
+import { useDuckStore, type ImportProgress } from "@/store";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  detectImportFormat,
+  DEFAULT_IMPORT_MODE,
+  formatImportResult,
+  getDefaultTableName,
+  hasHivePartitions,
+  parseImportUrls,
+  tableNameSchema,
+  IMPORT_FORMATS,
+  type ImportFormat,
+} from "@/lib/fileImport";
+import { toast } from "sonner";
+import ImportModeSelector, { type ImportModeState } from "./ImportModeSelector";
+
+interface UrlImporterProps {
+  onImported?: () => void;
+}
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  parquet: "Parquet",
+  csv: "CSV",
+  json: "JSON",
+};
+
+const UrlImporter: React.FC<UrlImporterProps> = ({ onImported }) => {
+  const { importFromUrl } = useDuckStore();
+  const [input, setInput] = useState("");
+  // Follows the URL until the user edits it.
+  const [tableName, setTableName] = useState<string | null>(null);
+  const [format, setFormat] = useState<ImportFormat | "auto">("auto");
+  const [importMode, setImportMode] =
+    useState<ImportModeState>(DEFAULT_IMPORT_MODE);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const parsed = useMemo(() => {
+    if (!input.trim()) return { urls: [] as string[] };
+    try {
+      return { urls: parseImportUrls(input) };
+    } catch (error) {
+      return {
+        urls: [] as string[],
+        error: error instanceof Error ? error.message : "Invalid URLs",
+      };
+    }
+  }, [input]);
+
+  const [firstUrl] = parsed.urls;
+  const detectedFormat = firstUrl ? detectImportFormat(firstUrl) : undefined;
+  const isHive = parsed.urls.some(hasHivePartitions);
+  const name = tableName ?? (firstUrl ? getDefaultTableName(firstUrl) : "");
+  const nameResult = tableNameSchema.safeParse(name);
+  const isImporting = progress !== null;
+  const canImport =
+    parsed.urls.length > 0 &&
+    nameResult.success &&
+    (format !== "auto" || !!detectedFormat) &&
+    !isImporting;
+
+  const handleImport = async () => {
+    if (!nameResult.success) return;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setProgress({ stage: "Starting", loaded: 0, total: 1 });
+    try {
+      const result = await importFromUrl(input, nameResult.data, {
+        format: format === "auto" ? undefined : format,
+        ...importMode,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      toast.success(
+        result
+          ? `Imported into ${nameResult.data}: ${formatImportResult(result)}`
+          : `Created view ${nameResult.data}`
+      );
+      setInput("");
+      setTableName(null);
+      onImported?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="import-urls">URLs</Label>
+        <Textarea
+          id="import-urls"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="https://example.com/data/year=2024/month={01..12}/data.parquet"
+          className="font-mono text-xs min-h-[100px]"
+          disabled={isImporting}
+        />
+        {parsed.error ? (
+          <p className="text-sm text-red-500">{parsed.error}</p>
+        ) : (
+          <p className="text-sm text-gray-500">
+            One URL per line. Use {"{a,b}"} or {"{1..12}"} to list several
+            files; key=value directories are read as hive partitions. The server
+            must allow CORS and range requests.
+          </p>
+        )}
+        {parsed.urls.length > 0 && (
+          <p className="text-xs text-gray-500">
+            {parsed.urls.length} {parsed.urls.length === 1 ? "file" : "files"}
+            {isHive && ", hive partitioned"}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="import-url-table">Table Name</Label>
+          <Input
+            id="import-url-table"
+            value={name}
+            onChange={(e) => setTableName(e.target.value)}
+            placeholder="Enter table name"
+            disabled={isImporting}
+          />
+          {name && !nameResult.success && (
+            <p className="text-sm text-red-500">
+              {nameResult.error.errors[0].message}
+            </p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <Select
+            value={format}
+            onValueChange={(value) => setFormat(value as ImportFormat | "auto")}
+            disabled={isImporting}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">
+                Auto
+                {detectedFormat && ` (${FORMAT_LABELS[detectedFormat]})`}
+              </SelectItem>
+              {IMPORT_FORMATS.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {FORMAT_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <ImportModeSelector
+        id="import-url"
+        tableName={name}
+        value={importMode}
+        onChange={setImportMode}
+        columns={[]}
+        allowView
+        disabled={isImporting}
+      />
+
+      {progress && (
+        <div className="flex flex-col space-y-2">
+          <span className="text-sm text-gray-500 truncate">
+            {progress.stage}... {progress.loaded}/{progress.total}
+          </span>
+          <Progress value={(progress.loaded / progress.total) * 100} />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={handleImport} disabled={!canImport} className="flex-1">
+          {isImporting ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Importing...
+            </>
+          ) : (
+            <>
+              <Globe className="w-4 h-4 mr-2" />
+              {importMode.mode === "view" ? "Create View" : "Import"}
+            </>
+          )}
+        </Button>
+        {isImporting && importMode.mode !== "view" && (
+          <Button
+            variant="destructive"
+            onClick={() => abortControllerRef.current?.abort()}
+            className="whitespace-nowrap"
+          >
+            <X className="w-4 h-4 mr-2" />
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UrlImporter;
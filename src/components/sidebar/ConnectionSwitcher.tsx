@@ -1,5 +1,14 @@
 import * as React from "react";
-import { ChevronsUpDown, ServerCog, Loader2, Cable } from "lucide-react";
+import {
+  ChevronsUpDown,
+  ServerCog,
+  Loader2,
+  Cable,
+  Lock,
+  LockOpen,
+  KeyRound,
+  ShieldOff,
+} from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -13,6 +22,10 @@ import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { useNavigate } from "react-router";
 import { useDuckStore } from "@/store";
+import { toast } from "sonner";
+import VaultDialog, {
+  type VaultDialogMode,
+} from "@/components/connection/VaultDialog";
 
 interface ConnectionSwitcherProps {
   expanded: boolean;
@@ -54,8 +67,19 @@ export default function ConnectionSwitcher({
     setCurrentConnection,
     isLoading,
     fetchDatabasesAndTablesInfo,
+    vault,
+    isVaultUnlocked,
+    lockVault,
+    disableVault,
   } = useDuckStore();
   const [isOpen, setIsOpen] = React.useState(false);
+  const isVaultLocked = !!vault && !isVaultUnlocked;
+  // Ask for the passphrase on startup when the credentials are encrypted.
+  const [vaultDialogMode, setVaultDialogMode] =
+    React.useState<VaultDialogMode | null>(() => {
+      const state = useDuckStore.getState();
+      return state.vault && !state.isVaultUnlocked ? "unlock" : null;
+    });
 
   const activeConnection = currentConnection || connectionList.connections[0];
 
@@ -69,6 +93,14 @@ export default function ConnectionSwitcher({
     }
   };
 
+  const handleDisableVault = () => {
+    try {
+      disableVault();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Unknown error");
+    }
+  };
+
   const renderConnectionIcon = () => (
     <div
       className="flex aspect-square size-6 items-center justify-center rounded-lg 
@@ -145,7 +177,14 @@ export default function ConnectionSwitcher({
               )}
             >
               <div className="flex items-center justify-between w-full">
-                <span className="font-medium">{connection.name}</span>
+                <span className="font-medium flex items-center gap-1">
+                  {connection.name}
+                  {isVaultLocked &&
+                    connection.environment === "APP" &&
+                    connection.scope === "External" && (
+                      <Lock className="size-3 text-muted-foreground" />
+                    )}
+                </span>
                 <span className="text-xs text-muted-foreground px-2 py-0.5 rounded-full bg-purple-500/20">
                   {connection.scope}
                 </span>
@@ -155,6 +194,45 @@ export default function ConnectionSwitcher({
 
           <DropdownMenuSeparator className="bg-purple-500/20" />
 
+          {!vault && (
+            <DropdownMenuItem
+              className="gap-2 p-2 cursor-pointer hover:bg-purple-500/10 transition-colors duration-150"
+              onClick={() => setVaultDialogMode("enable")}
+            >
+              <KeyRound className="size-4 text-purple-500" />
+              <span className="text-sm">Encrypt Credentials</span>
+            </DropdownMenuItem>
+          )}
+          {isVaultLocked && (
+            <DropdownMenuItem
+              className="gap-2 p-2 cursor-pointer hover:bg-purple-500/10 transition-colors duration-150"
+              onClick={() => setVaultDialogMode("unlock")}
+            >
+              <LockOpen className="size-4 text-purple-500" />
+              <span className="text-sm">Unlock Credentials</span>
+            </DropdownMenuItem>
+          )}
+          {vault && isVaultUnlocked && (
+            <>
+              <DropdownMenuItem
+                className="gap-2 p-2 cursor-pointer hover:bg-purple-500/10 transition-colors duration-150"
+                onClick={() => lockVault()}
+              >
+                <Lock className="size-4 text-purple-500" />
+                <span className="text-sm">Lock Credentials</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                className="gap-2 p-2 cursor-pointer hover:bg-purple-500/10 transition-colors duration-150"
+                onClick={handleDisableVault}
+              >
+                <ShieldOff className="size-4 text-purple-500" />
+                <span className="text-sm">Stop Encrypting Credentials</span>
+              </DropdownMenuItem>
+            </>
+          )}
+
+          <DropdownMenuSeparator className="bg-purple-500/20" />
+
           <DropdownMenuItem
             className="gap-2 p-2 cursor-pointer hover:bg-purple-500/10 transition-colors duration-150"
             onClick={() => {
@@ -169,6 +247,11 @@ export default function ConnectionSwitcher({
           </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
+
+      <VaultDialog
+        mode={vaultDialogMode}
+        onOpenChange={(open) => !open && setVaultDialogMode(null)}
+      />
     </div>
   );
 }
@@ -45,6 +45,8 @@ import {
   Loader2, // Import Loader2 for loading state
 } from "lucide-react";
 import DownloadDialog from "@/components/table/DownloadDialog";
+import NestedValue from "@/components/table/NestedValue";
+import { isNested } from "@/lib/arrow";
 import { SimpleFilter } from "@/components/table/SimpleFilter"; // Import SimpleFilter
 import { toast } from "sonner";
 import {
@@ -63,6 +65,20 @@ const OVERSCAN_COUNT = 5;
 const ROW_HEIGHT = 35;
 const DEFAULT_PAGE_SIZE = 50; // Changed to 50
 const PAGE_SIZE_OPTIONS = [50, 100, 200, 400]; // Available page size options
+// Arrow (WASM) and DuckDB (external) names of numeric column types
+const NUMERIC_TYPE_PATTERN =
+  /^(u?int|float|decimal|double|real|(u?(tiny|small|big|huge))int|integer)/i;
+
+// Render a converted value, with NULLs and nested values made explicit
+const renderValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return <span className="italic text-muted-foreground">NULL</span>;
+  }
+  if (isNested(value)) {
+    return <NestedValue value={value} />;
+  }
+  return String(value);
+};
 
 // Types
 export interface TableMeta {
@@ -89,6 +105,10 @@ export interface TableProps<T extends RowData> {
   onSortingChange?: (sorting: SortingState) => void;
   className?: string;
   query?: string;
+  totalRows?: number; // Total rows of the query when only some are loaded
+  onCountRows?: () => void; // Counts totalRows, which reruns the query
+  onCancelCount?: () => void;
+  isCounting?: boolean;
 }
 
 function DuckUiTable<T extends RowData>({
@@ -102,6 +122,10 @@ function DuckUiTable<T extends RowData>({
   onSortingChange,
   className,
   query,
+  totalRows,
+  onCountRows,
+  onCancelCount,
+  isCounting = false,
 }: TableProps<T>) {
   // State
   const [sorting, setSorting] = useState<SortingState>(defaultSorting);
@@ -124,7 +148,16 @@ function DuckUiTable<T extends RowData>({
   const resizeTimeout = useRef<NodeJS.Timeout | null>(null);
   const observerRef = useRef<IntersectionObserver | null>(null); // Add observer ref
 
-  const { columns, data, message, query_id } = result;
+  const { columns, columnTypes, data, message, query_id } = result;
+
+  // Go back to the first page on new results, but not when rows are appended
+  const previousData = useRef(data);
+  useEffect(() => {
+    if (previousData.current?.[0] !== data?.[0]) {
+      setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+    }
+    previousData.current = data;
+  }, [data]);
 
   // Error handling
   if (message) {
@@ -173,9 +206,7 @@ function DuckUiTable<T extends RowData>({
       enableResizing: true,
       size: columnSizing[col] || DEFAULT_COLUMN_SIZE,
       minSize: MIN_COLUMN_SIZE,
-      cell: ({ row }: any) => {
-        return String(row.original[col] ?? "");
-      },
+      cell: ({ row }: any) => renderValue(row.original[col]),
     }));
 
     return [
@@ -229,6 +260,7 @@ function DuckUiTable<T extends RowData>({
     getSortedRowModel: getSortedRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
+    autoResetPageIndex: false, // Handled by the effect above so loading more keeps the page
     enableColumnResizing: true,
     columnResizeMode: "onChange",
     globalFilterFn: (row, columnId, filterValue) => {
@@ -238,7 +270,10 @@ function DuckUiTable<T extends RowData>({
       const cellValue = row.getValue(columnId);
       if (cellValue == null) return false;
 
-      return String(cellValue).toLowerCase().includes(searchValue);
+      const text = isNested(cellValue)
+        ? JSON.stringify(cellValue)
+        : String(cellValue);
+      return text.toLowerCase().includes(searchValue);
     },
   });
 
@@ -295,6 +330,7 @@ function DuckUiTable<T extends RowData>({
   );
 
   // Load more effect (Corrected)
+  const { pageIndex } = table.getState().pagination;
   useEffect(() => {
     // Disconnect previous observer if it exists
     if (observerRef.current) {
@@ -324,6 +360,7 @@ function DuckUiTable<T extends RowData>({
     isLoading,
     globalFilter,
     table.getState().pagination.pageSize,
+    pageIndex,
   ]);
 
   // Effects
@@ -336,6 +373,13 @@ function DuckUiTable<T extends RowData>({
     return flexRender(cell.column.columnDef.cell, cell.getContext());
   }, []);
 
+  // Numeric columns are right aligned
+  const numericColumns = new Set(
+    columns.filter((_, index) =>
+      NUMERIC_TYPE_PATTERN.test(columnTypes?.[index] ?? "")
+    )
+  );
+
   const TableRow = ({ row }: { row: Row<T> }) => (
     <tr
       key={row.id}
@@ -345,7 +389,9 @@ function DuckUiTable<T extends RowData>({
         <td
           key={cell.id}
           style={{ width: cell.column.getSize() }}
-          className="p-2 border dark:border-gray-700 truncate"
+          className={`p-2 border dark:border-gray-700 truncate ${
+            numericColumns.has(cell.column.id) ? "text-right" : ""
+          }`}
         >
           {renderCell(cell)}
         </td>
@@ -628,7 +674,7 @@ function DuckUiTable<T extends RowData>({
                   />
                 </tr>
               )}
-              {onLoadMore && (
+              {onLoadMore && !table.getCanNextPage() && (
                 <tr ref={loadMoreRef}>
                   <td
                     colSpan={memoizedColumns.length}
@@ -659,6 +705,30 @@ function DuckUiTable<T extends RowData>({
             {table.getFilteredRowModel().rows.length.toLocaleString()} of{" "}
             {table.getPreFilteredRowModel().rows.length.toLocaleString()} rows
           </span>
+          {(onLoadMore ||
+            (totalRows !== undefined && totalRows > (data?.length ?? 0))) && (
+            <span>
+              Loaded {(data?.length ?? 0).toLocaleString()}
+              {totalRows !== undefined
+                ? ` of ${totalRows.toLocaleString()} rows`
+                : " rows, more available"}
+              {totalRows === undefined && onCountRows && (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 ml-2 text-xs"
+                  onClick={isCounting ? onCancelCount : onCountRows}
+                  title={
+                    isCounting
+                      ? undefined
+                      : "Runs the query again; no more rows can be loaded after"
+                  }
+                >
+                  {isCounting ? "Counting... cancel" : "Count all rows"}
+                </Button>
+              )}
+            </span>
+          )}
         </div>
       </div>
     </div>
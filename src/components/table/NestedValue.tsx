@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { isNested, NestedValue as Nested } from "@/lib/arrow";
+
+// One-line summary of a nested value, e.g. {a: 1, b: [2, 3]}.
+const preview = (value: unknown): string => {
+  if (value === null || value === undefined) return "NULL";
+  if (Array.isArray(value)) return `[${value.map(preview).join(", ")}]`;
+  if (isNested(value)) {
+    return `{${Object.entries(value)
+      .map(([key, child]) => `${key}: ${preview(child)}`)
+      .join(", ")}}`;
+  }
+  return typeof value === "string" ? `'${value}'` : String(value);
+};
+
+const entriesOf = (value: Nested): [string, unknown][] =>
+  Array.isArray(value)
+    ? value.map((child, index) => [String(index), child])
+    : Object.entries(value);
+
+interface ValueNodeProps {
+  name: string;
+  value: unknown;
+  defaultOpen?: boolean;
+}
+
+const ValueNode: React.FC<ValueNodeProps> = ({
+  name,
+  value,
+  defaultOpen = false,
+}) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+
+  if (!isNested(value)) {
+    return (
+      <div className="flex gap-2 pl-5 py-0.5">
+        <span className="text-muted-foreground">{name}:</span>
+        {value === null || value === undefined ? (
+          <span className="italic text-muted-foreground">NULL</span>
+        ) : (
+          <span className="break-all">{String(value)}</span>
+        )}
+      </div>
+    );
+  }
+
+  const entries = entriesOf(value);
+  return (
+    <div>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 py-0.5 hover:text-primary"
+      >
+        {isOpen ? (
+          <ChevronDown className="h-4 w-4" />
+        ) : (
+          <ChevronRight className="h-4 w-4" />
+        )}
+        <span className="text-muted-foreground">{name}:</span>
+        <span className="text-xs text-muted-foreground">
+          {Array.isArray(value)
+            ? `list (${entries.length})`
+            : `struct (${entries.length})`}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="pl-4 border-l ml-2">
+          {entries.map(([key, child]) => (
+            <ValueNode key={key} name={key} value={child} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface NestedValueProps {
+  value: Nested;
+}
+
+// Table cell for LIST, STRUCT and MAP values: a one-line preview that opens
+// an expandable tree.
+const NestedValue: React.FC<NestedValueProps> = ({ value }) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="w-full truncate text-left font-mono text-xs hover:underline"
+        >
+          {preview(value)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 max-h-96 overflow-auto font-mono text-xs">
+        <ValueNode name="value" value={value} defaultOpen />
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NestedValue;
@@ -0,0 +1,224 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronRight, Network } from "lucide-react";
+import type { QueryPlan, QueryPlanNode } from "@/lib/queryPlan";
+import { cn, formatDuration } from "@/lib/utils";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+interface QueryPlanViewProps {
+  plan: QueryPlan;
+}
+
+// Colour of an operator by its share of the total time.
+const getHeatClass = (percentage = 0) => {
+  if (percentage >= 50) return "border-red-500 bg-red-500/10";
+  if (percentage >= 20) return "border-orange-500 bg-orange-500/10";
+  if (percentage >= 5) return "border-yellow-500 bg-yellow-500/10";
+  return "border-border bg-card";
+};
+
+const findNode = (
+  node: QueryPlanNode,
+  id: string
+): QueryPlanNode | undefined =>
+  node.id === id
+    ? node
+    : node.children.reduce<QueryPlanNode | undefined>(
+        (found, child) => found ?? findNode(child, id),
+        undefined
+      );
+
+const formatRows = (rows: number) =>
+  `${rows.toLocaleString()} ${rows === 1 ? "row" : "rows"}`;
+
+interface PlanNodeTreeProps {
+  node: QueryPlanNode;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+const PlanNodeTree: React.FC<PlanNodeTreeProps> = ({
+  node,
+  selectedId,
+  onSelect,
+}) => {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const hasChildren = node.children.length > 0;
+
+  return (
+    <div className="flex flex-col items-center">
+      <button
+        type="button"
+        onClick={() => onSelect(node.id)}
+        className={cn(
+          "relative w-48 rounded-md border-2 p-2 text-left text-xs transition-shadow hover:shadow-md",
+          getHeatClass(node.percentage),
+          selectedId === node.id && "ring-2 ring-primary"
+        )}
+      >
+        <div className="flex items-center justify-between gap-1">
+          <span className="font-semibold truncate">{node.name}</span>
+          {hasChildren && (
+            <span
+              role="button"
+              tabIndex={0}
+              title={isExpanded ? "Collapse" : "Expand"}
+              className="rounded hover:bg-muted"
+              onClick={(e) => {
+                e.stopPropagation();
+                setIsExpanded(!isExpanded);
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.stopPropagation();
+                  setIsExpanded(!isExpanded);
+                }
+              }}
+            >
+              {isExpanded ? (
+                <ChevronDown className="h-3 w-3" />
+              ) : (
+                <ChevronRight className="h-3 w-3" />
+              )}
+            </span>
+          )}
+        </div>
+        <div className="mt-1 text-muted-foreground">
+          {node.cardinality !== undefined
+            ? formatRows(node.cardinality)
+            : node.estimatedCardinality !== undefined
+              ? `~${formatRows(node.estimatedCardinality)}`
+              : null}
+        </div>
+        {node.timing !== undefined && (
+          <>
+            <div className="flex justify-between text-muted-foreground">
+              <span>{formatDuration(node.timing)}</span>
+              <span>{(node.percentage ?? 0).toFixed(1)}%</span>
+            </div>
+            <div className="mt-1 h-1 rounded bg-muted">
+              <div
+                className="h-1 rounded bg-primary"
+                style={{ width: `${Math.min(node.percentage ?? 0, 100)}%` }}
+              />
+            </div>
+          </>
+        )}
+      </button>
+
+      {hasChildren && isExpanded && (
+        <>
+          <span className="h-4 w-px bg-border" />
+          <div className="flex">
+            {node.children.map((child, index) => (
+              <div
+                key={child.id}
+                className="relative flex flex-col items-center px-2 pt-4"
+              >
+                {node.children.length > 1 && (
+                  <span
+                    className={cn(
+                      "absolute top-0 h-px bg-border",
+                      index === 0
+                        ? "left-1/2 right-0"
+                        : index === node.children.length - 1
+                          ? "left-0 right-1/2"
+                          : "left-0 right-0"
+                    )}
+                  />
+                )}
+                <span className="absolute top-0 left-1/2 h-4 w-px bg-border" />
+                <PlanNodeTree
+                  node={child}
+                  selectedId={selectedId}
+                  onSelect={onSelect}
+                />
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+      {hasChildren && !isExpanded && (
+        <span className="mt-1 text-[10px] text-muted-foreground">
+          {node.children.length} hidden
+        </span>
+      )}
+    </div>
+  );
+};
+
+const QueryPlanView: React.FC<QueryPlanViewProps> = ({ plan }) => {
+  // Kept by id, so a re-run of the same query keeps the operator selected.
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = selectedId ? findNode(plan.root, selectedId) : undefined;
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-2 px-4 py-2 border-b text-sm">
+        <Network className="h-4 w-4" />
+        <span className="font-medium">Query Plan</span>
+        <Badge variant="secondary" className="text-xs">
+          {plan.analyzed ? "Analyzed" : "Estimated"}
+        </Badge>
+        {plan.totalTiming !== undefined && (
+          <span className="ml-auto text-xs text-muted-foreground">
+            Operators took {formatDuration(plan.totalTiming)} in total
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        <div className="flex-1 overflow-auto p-4">
+          <div className="w-max min-w-full flex justify-center">
+            <PlanNodeTree
+              node={plan.root}
+              selectedId={selectedId}
+              onSelect={setSelectedId}
+            />
+          </div>
+        </div>
+
+        {selected && (
+          <ScrollArea className="w-72 border-l">
+            <div className="p-4 space-y-3 text-xs">
+              <h4 className="font-semibold text-sm">{selected.name}</h4>
+              <dl className="space-y-1">
+                {selected.cardinality !== undefined && (
+                  <div className="flex justify-between">
+                    <dt className="text-muted-foreground">Rows</dt>
+                    <dd>{selected.cardinality.toLocaleString()}</dd>
+                  </div>
+                )}
+                {selected.estimatedCardinality !== undefined && (
+                  <div className="flex justify-between">
+                    <dt className="text-muted-foreground">Estimated rows</dt>
+                    <dd>{selected.estimatedCardinality.toLocaleString()}</dd>
+                  </div>
+                )}
+                {selected.timing !== undefined && (
+                  <div className="flex justify-between">
+                    <dt className="text-muted-foreground">Time</dt>
+                    <dd>
+                      {formatDuration(selected.timing)} (
+                      {(selected.percentage ?? 0).toFixed(1)}%)
+                    </dd>
+                  </div>
+                )}
+              </dl>
+              {Object.entries(selected.details).map(([key, value]) => (
+                <div key={key}>
+                  <div className="text-muted-foreground">{key}</div>
+                  <pre className="font-mono whitespace-pre-wrap break-all">
+                    {value}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QueryPlanView;
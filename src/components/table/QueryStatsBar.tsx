@@ -0,0 +1,54 @@
+import React from "react";
+import { Columns3, HardDrive, Rows3, Timer, Zap } from "lucide-react";
+import { QueryResult } from "@/store";
+import { formatBytes, formatDuration } from "@/lib/utils";
+
+interface QueryStatsBarProps {
+  result: QueryResult;
+}
+
+// Execution statistics of a result, shown under its table.
+const QueryStatsBar: React.FC<QueryStatsBarProps> = ({ result }) => {
+  const rows = result.totalRows ?? result.rowCount;
+  const columns = result.columns.length;
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 px-2 py-1 border-t dark:border-gray-700 text-xs text-muted-foreground">
+      {result.duration !== undefined && (
+        <span className="flex items-center gap-1" title="Wall-clock time">
+          <Timer className="h-3 w-3" />
+          {formatDuration(result.duration)}
+        </span>
+      )}
+      {result.timeToFirstRow !== undefined && (
+        <span className="flex items-center gap-1" title="Time to first row">
+          <Zap className="h-3 w-3" />
+          {formatDuration(result.timeToFirstRow)}
+        </span>
+      )}
+      <span className="flex items-center gap-1">
+        <Rows3 className="h-3 w-3" />
+        {rows.toLocaleString()}
+        {(result.hasMore || result.truncated) && result.totalRows === undefined
+          ? "+"
+          : ""}{" "}
+        {rows === 1 ? "row" : "rows"}
+      </span>
+      <span className="flex items-center gap-1">
+        <Columns3 className="h-3 w-3" />
+        {columns} {columns === 1 ? "column" : "columns"}
+      </span>
+      {result.byteSize !== undefined && (
+        <span
+          className="flex items-center gap-1"
+          title={result.hasMore ? "Size of the loaded rows" : "Result size"}
+        >
+          <HardDrive className="h-3 w-3" />
+          {formatBytes(result.byteSize)}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default QueryStatsBar;
@@ -1,6 +1,14 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { useDuckStore, QueryHistoryItem } from "@/store";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Sheet,
   SheetContent,
@@ -11,7 +19,7 @@ import {
   SheetFooter,
 } from "@/components/ui/sheet";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { format } from "date-fns";
+import { format, startOfDay, subDays } from "date-fns";
 import {
   Copy,
   CopyCheck,
@@ -21,7 +29,20 @@ import {
   Clock,
   CheckCircle2,
   XCircle,
+  Star,
+  Search,
+  Play,
+  SquarePlus,
+  Database,
+  Timer,
+  Rows3,
+  Zap,
+  Columns3,
+  HardDrive,
+  History,
+  X,
 } from "lucide-react";
+import { formatBytes, formatDuration } from "@/lib/utils";
 import { toast } from "sonner";
 import { Card, CardContent } from "@/components/ui/card";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -41,11 +62,84 @@ interface QueryHistoryProps {
   isExpanded: boolean;
 }
 
+type DateFilter = "all" | "today" | "7d" | "30d";
+
+// Oldest run shown for each date filter.
+const getDateFilterStart = (filter: DateFilter): Date | null => {
+  switch (filter) {
+    case "today":
+      return startOfDay(new Date());
+    case "7d":
+      return subDays(new Date(), 7);
+    case "30d":
+      return subDays(new Date(), 30);
+    default:
+      return null;
+  }
+};
+
+// Number of history items rendered at once; more are shown on demand.
+const PAGE_SIZE = 100;
+
 const QueryHistory: React.FC<QueryHistoryProps> = ({ isExpanded }) => {
   const queryHistory = useDuckStore((state) => state.queryHistory);
   const clearHistory = useDuckStore((state) => state.clearHistory);
+  const toggleHistoryFavorite = useDuckStore(
+    (state) => state.toggleHistoryFavorite
+  );
+  const { tabs, createTab, setActiveTab, updateTabQuery, executeQuery } =
+    useDuckStore();
   const [copiedQuery, setCopiedQuery] = useState<string | null>(null);
   const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [dateFilter, setDateFilter] = useState<DateFilter>("all");
+  const [connectionFilter, setConnectionFilter] = useState("all");
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  // When set, only the runs of this exact query are listed, to compare them.
+  const [runsOf, setRunsOf] = useState<string | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // Connections that appear in the history, for the connection filter.
+  const historyConnections = useMemo(() => {
+    const connections = new Map<string, string>();
+    queryHistory.forEach((item) => {
+      if (item.connectionId) {
+        connections.set(
+          item.connectionId,
+          item.connectionName || item.connectionId
+        );
+      }
+    });
+    return Array.from(connections, ([id, name]) => ({ id, name }));
+  }, [queryHistory]);
+
+  const filteredHistory = useMemo(() => {
+    const terms = search.toLowerCase().split(/\s+/).filter(Boolean);
+    const since = getDateFilterStart(dateFilter);
+    return queryHistory.filter((item) => {
+      if (runsOf !== null && item.query !== runsOf) return false;
+      if (favoritesOnly && !item.favorite) return false;
+      if (since && item.timestamp < since) return false;
+      if (
+        connectionFilter !== "all" &&
+        item.connectionId !== connectionFilter
+      ) {
+        return false;
+      }
+      const text = [item.query, item.error, item.tabTitle, item.connectionName]
+        .filter(Boolean)
+        .join(" ")
+        .toLowerCase();
+      return terms.every((term) => text.includes(term));
+    });
+  }, [
+    queryHistory,
+    search,
+    dateFilter,
+    connectionFilter,
+    favoritesOnly,
+    runsOf,
+  ]);
 
   const handleCopyQuery = (query: string) => {
     navigator.clipboard.writeText(query);
@@ -56,6 +150,28 @@ const QueryHistory: React.FC<QueryHistoryProps> = ({ isExpanded }) => {
     setTimeout(() => setCopiedQuery(null), 1000);
   };
 
+  const handleOpenInNewTab = (item: QueryHistoryItem) => {
+    createTab("sql", item.query);
+    setIsOpen(false);
+  };
+
+  // Run the query again in the tab it came from, or in a new tab if that tab
+  // is gone.
+  const handleRerun = (item: QueryHistoryItem) => {
+    let tabId = tabs.find(
+      (tab) => tab.id === item.tabId && tab.type === "sql"
+    )?.id;
+    if (tabId) {
+      updateTabQuery(tabId, item.query);
+      setActiveTab(tabId);
+    } else {
+      createTab("sql", item.query);
+      tabId = useDuckStore.getState().activeTabId ?? undefined;
+    }
+    setIsOpen(false);
+    executeQuery(item.query, tabId);
+  };
+
   const getStatusIcon = (item: QueryHistoryItem) => {
     if (item.error) return <XCircle className="w-4 h-4 text-red-500" />;
     return <CheckCircle2 className="w-4 h-4 text-green-500" />;
@@ -91,11 +207,85 @@ const QueryHistory: React.FC<QueryHistoryProps> = ({ isExpanded }) => {
             Query History
           </SheetTitle>
           <SheetDescription>
-            View and manage your recent SQL queries
+            Search, filter and re-run every query you have executed
           </SheetDescription>
         </SheetHeader>
 
-        <ScrollArea className="h-[calc(100vh-12rem)] mt-4 pr-4">
+        <div className="mt-4 space-y-2">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setVisibleCount(PAGE_SIZE);
+              }}
+              placeholder="Search queries, errors, tabs..."
+              className="pl-8"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={dateFilter}
+              onValueChange={(value) => setDateFilter(value as DateFilter)}
+            >
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any time</SelectItem>
+                <SelectItem value="today">Today</SelectItem>
+                <SelectItem value="7d">Last 7 days</SelectItem>
+                <SelectItem value="30d">Last 30 days</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={connectionFilter}
+              onValueChange={setConnectionFilter}
+            >
+              <SelectTrigger className="h-8 w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All connections</SelectItem>
+                {historyConnections.map((connection) => (
+                  <SelectItem key={connection.id} value={connection.id}>
+                    {connection.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant={favoritesOnly ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setFavoritesOnly(!favoritesOnly)}
+            >
+              <Star
+                className={`w-4 h-4 mr-1 ${
+                  favoritesOnly ? "fill-yellow-400 text-yellow-400" : ""
+                }`}
+              />
+              Favourites
+            </Button>
+          </div>
+          {runsOf !== null && (
+            <div className="flex items-center gap-2 rounded-md bg-muted px-2 py-1 text-xs">
+              <History className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate font-mono">{runsOf}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="ml-auto h-5 w-5 flex-shrink-0"
+                title="Show all queries"
+                onClick={() => setRunsOf(null)}
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <ScrollArea className="h-[calc(100vh-18rem)] mt-4 pr-4">
           {queryHistory.length === 0 ? (
             <Alert>
               <AlertCircle className="w-4 h-4" />
@@ -105,9 +295,13 @@ const QueryHistory: React.FC<QueryHistoryProps> = ({ isExpanded }) => {
                 queries.
               </AlertDescription>
             </Alert>
+          ) : filteredHistory.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No queries match the current filters.
+            </p>
           ) : (
             <div className="space-y-4">
-              {queryHistory.map((item: QueryHistoryItem) => (
+              {filteredHistory.slice(0, visibleCount).map((item) => (
                 <Card key={item.id} className="relative">
                   <CardContent className="p-4">
                     <div className="flex items-start justify-between gap-4">
@@ -123,11 +317,57 @@ const QueryHistory: React.FC<QueryHistoryProps> = ({ isExpanded }) => {
                           </pre>
                         </div>
 
-                        <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                        <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
                           <div className="flex items-center gap-1">
                             <Clock className="w-3 h-3" />
                             {format(item.timestamp, "MMM d, yyyy h:mm a")}
                           </div>
+                          {item.connectionName && (
+                            <div className="flex items-center gap-1">
+                              <Database className="w-3 h-3" />
+                              {item.connectionName}
+                            </div>
+                          )}
+                          {item.tabTitle && (
+                            <span className="truncate max-w-[10rem]">
+                              {item.tabTitle}
+                            </span>
+                          )}
+                          {item.duration !== undefined && (
+                            <div className="flex items-center gap-1">
+                              <Timer className="w-3 h-3" />
+                              {formatDuration(item.duration)}
+                            </div>
+                          )}
+                          {item.timeToFirstRow !== undefined && (
+                            <div
+                              className="flex items-center gap-1"
+                              title="Time to first row"
+                            >
+                              <Zap className="w-3 h-3" />
+                              {formatDuration(item.timeToFirstRow)}
+                            </div>
+                          )}
+                          {item.rowCount !== undefined && !item.error && (
+                            <div className="flex items-center gap-1">
+                              <Rows3 className="w-3 h-3" />
+                              {item.rowCount.toLocaleString()}{" "}
+                              {item.rowCount === 1 ? "row" : "rows"}
+                            </div>
+                          )}
+                          {!!item.columnCount && !item.error && (
+                            <div className="flex items-center gap-1">
+                              <Columns3 className="w-3 h-3" />
+                              {item.columnCount}{" "}
+                              {item.columnCount === 1 ? "column" : "columns"}
+                            </div>
+                          )}
+                          {item.byteSize !== undefined && !item.error && (
+                            <div className="flex items-center gap-1">
+                              <HardDrive className="w-3 h-3" />
+                              {formatBytes(item.byteSize)}
+                            </div>
+                          )}
                         </div>
 
                         {item.error && (
@@ -139,22 +379,78 @@ const QueryHistory: React.FC<QueryHistoryProps> = ({ isExpanded }) => {
                         )}
                       </div>
 
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => handleCopyQuery(item.query)}
-                        className="flex-shrink-0"
-                      >
-                        {copiedQuery === item.query ? (
-                          <CopyCheck className="w-4 h-4" />
-                        ) : (
-                          <Copy className="w-4 h-4" />
-                        )}
-                      </Button>
+                      <div className="flex flex-col flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={
+                            item.favorite
+                              ? "Remove from favourites"
+                              : "Add to favourites"
+                          }
+                          onClick={() => toggleHistoryFavorite(item.id)}
+                        >
+                          <Star
+                            className={`w-4 h-4 ${
+                              item.favorite
+                                ? "fill-yellow-400 text-yellow-400"
+                                : ""
+                            }`}
+                          />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Re-run"
+                          onClick={() => handleRerun(item)}
+                        >
+                          <Play className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Compare runs of this query"
+                          onClick={() => {
+                            setRunsOf(item.query);
+                            setVisibleCount(PAGE_SIZE);
+                          }}
+                        >
+                          <History className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Open in new tab"
+                          onClick={() => handleOpenInNewTab(item)}
+                        >
+                          <SquarePlus className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Copy"
+                          onClick={() => handleCopyQuery(item.query)}
+                        >
+                          {copiedQuery === item.query ? (
+                            <CopyCheck className="w-4 h-4" />
+                          ) : (
+                            <Copy className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </div>
                     </div>
                   </CardContent>
                 </Card>
               ))}
+              {filteredHistory.length > visibleCount && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                >
+                  Show more ({filteredHistory.length - visibleCount} left)
+                </Button>
+              )}
             </div>
           )}
         </ScrollArea>
@@ -173,7 +469,7 @@ const QueryHistory: React.FC<QueryHistoryProps> = ({ isExpanded }) => {
                   <AlertDialogTitle>Clear Query History?</AlertDialogTitle>
                   <AlertDialogDescription>
                     This action cannot be undone. This will permanently delete
-                    your query history.
+                    your query history, except for your favourites.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter>
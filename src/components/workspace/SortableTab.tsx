@@ -1,7 +1,7 @@
 import { CSS } from "@dnd-kit/utilities";
 import { useSortable } from "@dnd-kit/sortable";
 import { TabsTrigger } from "@/components/ui/tabs";
-import { X, Home, Terminal, GripVertical } from "lucide-react";
+import { X, Home, Terminal, GripVertical, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useDuckStore } from "@/store";
 
@@ -30,7 +30,8 @@ function SortableTab({ tab, isActive }: SortableTabProps) {
     disabled: tab.id === "home",
   });
 
-  const { isExecuting, closeTab } = useDuckStore();
+  const { closeTab } = useDuckStore();
+  const isExecuting = useDuckStore((state) => !!state.executingTabs[tab.id]);
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -73,7 +74,6 @@ function SortableTab({ tab, isActive }: SortableTabProps) {
         </div>
       )}
       <TabsTrigger
-        disabled={isExecuting}
         value={tab.id}
         className={cn(
           "flex h-8 items-center rounded-sm px-3 relative w-full",
@@ -81,14 +81,15 @@ function SortableTab({ tab, isActive }: SortableTabProps) {
           "transition-colors duration-200",
           "hover:bg-[#ffe814]/40",
           tab.id === "home" ? "cursor-default" : "cursor-pointer",
-          tab.type === "sql" ? "pl-7" : "pl-3", // Add padding for drag handle
-          isExecuting ? "pointer-events-none opacity-50" : ""
+          tab.type === "sql" ? "pl-7" : "pl-3" // Add padding for drag handle
         )}
       >
         <div className="flex items-center space-x-2 overflow-hidden w-full">
           <div className="flex-shrink-0">
             {tab.type === "home" ? (
               <Home className="h-4 w-4" />
+            ) : isExecuting ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
             ) : tab.type === "sql" ? (
               <Terminal className="h-4 w-4" />
             ) : null}
@@ -1,6 +1,6 @@
 // src/components/workspace/SqlTab.tsx
-import React from "react";
-import { useDuckStore } from "@/store";
+import React, { useEffect, useRef, useState } from "react";
+import { useDuckStore, QueryResult } from "@/store";
 import SqlEditor from "@/components/editor/SqlEditor";
 import {
   ResizablePanel,
@@ -8,17 +8,59 @@ import {
   ResizableHandle,
 } from "@/components/ui/resizable";
 import DuckUiTable from "@/components/table/DuckUItable";
-import { FileX2 } from "lucide-react";
+import QueryStatsBar from "@/components/table/QueryStatsBar";
+import QueryPlanView from "@/components/table/QueryPlanView";
+import { Ban, CheckCircle2, FileX2, XCircle } from "lucide-react";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "../ui/skeleton";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatDuration } from "@/lib/utils";
 
 interface SqlTabProps {
   tabId: string;
 }
 
 const SqlTab: React.FC<SqlTabProps> = ({ tabId }) => {
-  const { tabs, isExecuting } = useDuckStore();
+  const { tabs, executeQuery, loadMoreRows, countResultRows, cancelCount } =
+    useDuckStore();
+  const isExecuting = useDuckStore((state) => !!state.executingTabs[tabId]);
   const currentTab = tabs.find((tab) => tab.id === tabId);
+  const statementResults = currentTab?.results;
+  const runId = currentTab?.runId;
+  const [activeStatement, setActiveStatement] = useState("0");
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [isCounting, setIsCounting] = useState(false);
+
+  const handleLoadMore = async () => {
+    setIsLoadingMore(true);
+    try {
+      await loadMoreRows(tabId);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleCountRows = async () => {
+    setIsCounting(true);
+    try {
+      await countResultRows(tabId);
+    } finally {
+      setIsCounting(false);
+    }
+  };
+
+  // Focus the first failed statement of a new run, or the last one. Loading
+  // more rows replaces the results but keeps the run.
+  const focusedRunId = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (!statementResults || runId === focusedRunId.current) return;
+    focusedRunId.current = runId;
+    const errorIndex = statementResults.findIndex((result) => result.error);
+    setActiveStatement(
+      String(errorIndex !== -1 ? errorIndex : statementResults.length - 1)
+    );
+  }, [runId, statementResults]);
 
   const renderResults = () => {
     if (!currentTab || currentTab.type !== "sql") {
@@ -71,25 +113,143 @@ const SqlTab: React.FC<SqlTabProps> = ({ tabId }) => {
       );
     }
 
+    // Show one sub-tab per statement when a script was run
+    if (statementResults && statementResults.length > 1) {
+      const results = statementResults;
+      return (
+        <Tabs
+          value={activeStatement}
+          onValueChange={setActiveStatement}
+          className="h-full flex flex-col"
+        >
+          <TabsList className="justify-start rounded-none border-b overflow-x-auto flex-shrink-0">
+            {results.map((result, index) => (
+              <TabsTrigger
+                key={index}
+                value={String(index)}
+                className="gap-1 text-xs"
+                title={result.statement}
+              >
+                {result.error ? (
+                  <XCircle className="h-3 w-3 text-red-500" />
+                ) : (
+                  <CheckCircle2 className="h-3 w-3 text-green-500" />
+                )}
+                #{index + 1}
+                {result.duration !== undefined && (
+                  <span className="text-muted-foreground">
+                    {formatDuration(result.duration)}
+                  </span>
+                )}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {results.map((result, index) => (
+            <TabsContent
+              key={index}
+              value={String(index)}
+              className="flex-1 m-0 overflow-hidden"
+            >
+              {renderResult(result, result.statement)}
+            </TabsContent>
+          ))}
+        </Tabs>
+      );
+    }
+
+    return renderResult(currentTab.result, currentTab.content as string);
+  };
+
+  const renderResult = (result: QueryResult, query?: string) => {
+    // Show notice if the query was cancelled
+    if (result.cancelled) {
+      return (
+        <div className="m-4">
+          <Alert>
+            <Ban className="h-4 w-4" />
+            <AlertTitle>Query Cancelled</AlertTitle>
+            <AlertDescription>
+              The query was cancelled before it finished. Run it again to get
+              results.
+            </AlertDescription>
+          </Alert>
+        </div>
+      );
+    }
+
     // Show error if query failed
-    if (currentTab.result.error) {
+    if (result.error) {
       return (
         <div className="m-4">
           <Alert variant="destructive">
             <AlertTitle>Query Error</AlertTitle>
-            <AlertDescription>{currentTab.result.error}</AlertDescription>
+            <AlertDescription>{result.error}</AlertDescription>
           </Alert>
         </div>
       );
     }
 
-    // Show results table
+    // Show the plan of a JSON EXPLAIN as a graph
+    if (result.plan) {
+      return <QueryPlanView plan={result.plan} />;
+    }
+
+    // Show affected rows for statements that don't return data
+    if (result.affectedRows !== undefined || result.columns.length === 0) {
+      return (
+        <div className="h-full flex items-center justify-center">
+          <div className="flex flex-col items-center gap-2">
+            <CheckCircle2 size={32} className="text-green-500" />
+            <p className="text-sm">
+              {result.affectedRows !== undefined
+                ? `${result.affectedRows.toLocaleString()} ${
+                    result.affectedRows === 1 ? "row" : "rows"
+                  } affected`
+                : "Statement executed successfully"}
+            </p>
+            {result.duration !== undefined && (
+              <p className="text-xs text-muted-foreground">
+                {formatDuration(result.duration)}
+              </p>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    // Show results table, streaming more rows of the tab's last result
+    const canLoadMore = result.hasMore && result === currentTab?.result;
     return (
-      <div className="h-full">
-        <DuckUiTable
-          result={currentTab.result}
-          query={currentTab.content as string}
-        />
+      <div className="h-full flex flex-col">
+        {result.truncated && result.statement && (
+          <div className="flex items-center justify-between gap-2 px-2 py-1 border-b dark:border-gray-700 text-xs text-muted-foreground">
+            <span>
+              Only the first {result.rowCount.toLocaleString()} rows are shown:
+              more rows can only be loaded for the last statement.
+            </span>
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => executeQuery(result.statement!, tabId)}
+            >
+              Run this statement alone
+            </Button>
+          </div>
+        )}
+        <div className="flex-1 min-h-0">
+          <DuckUiTable
+            result={result}
+            query={query}
+            onLoadMore={canLoadMore ? handleLoadMore : undefined}
+            isLoading={isLoadingMore}
+            totalRows={result.totalRows}
+            onCountRows={canLoadMore ? handleCountRows : undefined}
+            onCancelCount={() => cancelCount(tabId)}
+            isCounting={isCounting}
+          />
+        </div>
+        <QueryStatsBar result={result} />
       </div>
     );
   };
@@ -0,0 +1,304 @@
+// Conversion of Arrow results into plain JS values that keep DuckDB's
+// precision and nested structure.
+import {
+  DataType,
+  Decimal,
+  Dictionary,
+  Field,
+  Interval,
+  IntervalUnit,
+  RecordBatch,
+  Schema,
+  Table,
+  Time,
+  Timestamp,
+  TimeUnit,
+  Type,
+  Vector,
+} from "apache-arrow";
+import type { QueryResult } from "@/store";
+
+// Arrow JS doesn't know the MONTH_DAY_NANO interval unit DuckDB exports.
+const INTERVAL_MONTH_DAY_NANO = 2;
+
+const pad = (value: number, length = 2) =>
+  String(Math.abs(value)).padStart(length, "0");
+
+/**
+ * Formats a time of day given in microseconds as HH:MM:SS[.ffffff], dropping
+ * trailing zeros of the fraction like DuckDB does.
+ */
+const formatTimeOfDay = (micros: number): string => {
+  const seconds = Math.floor(micros / 1_000_000);
+  const fraction = micros - seconds * 1_000_000;
+  const time = `${pad(Math.floor(seconds / 3600))}:${pad(
+    Math.floor(seconds / 60) % 60
+  )}:${pad(seconds % 60)}`;
+  return fraction > 0 ? `${time}.${pad(fraction, 6).replace(/0+$/, "")}` : time;
+};
+
+const formatDate = (date: Date, utc: boolean): string => {
+  const year = utc ? date.getUTCFullYear() : date.getFullYear();
+  const month = utc ? date.getUTCMonth() : date.getMonth();
+  const day = utc ? date.getUTCDate() : date.getDate();
+  return `${year < 0 ? "-" : ""}${pad(year, 4)}-${pad(month + 1)}-${pad(day)}`;
+};
+
+/**
+ * Formats a timestamp given in (fractional) epoch milliseconds. Timestamps
+ * without a time zone are shown as stored; TIMESTAMPTZ values are shown in
+ * the browser's time zone with their offset.
+ */
+const formatTimestamp = (ms: number, timezone?: string | null): string => {
+  const micros = Math.round(ms * 1000);
+  const seconds = Math.floor(micros / 1_000_000);
+  const date = new Date(seconds * 1000);
+  const utc = !timezone;
+  const secondOfDay = utc
+    ? date.getUTCHours() * 3600 +
+      date.getUTCMinutes() * 60 +
+      date.getUTCSeconds()
+    : date.getHours() * 3600 + date.getMinutes() * 60 + date.getSeconds();
+  const text = `${formatDate(date, utc)} ${formatTimeOfDay(
+    secondOfDay * 1_000_000 + (micros - seconds * 1_000_000)
+  )}`;
+  if (utc) return text;
+  const offset = -date.getTimezoneOffset();
+  const sign = offset < 0 ? "-" : "+";
+  return `${text}${sign}${pad(Math.floor(Math.abs(offset) / 60))}${
+    offset % 60 ? `:${pad(offset % 60)}` : ""
+  }`;
+};
+
+/**
+ * Formats an interval like DuckDB, e.g. "1 year 2 months 3 days 04:05:06".
+ */
+const formatInterval = (
+  months: number,
+  days: number,
+  micros: number
+): string => {
+  const parts: string[] = [];
+  const plural = (count: number, unit: string) =>
+    `${count} ${unit}${Math.abs(count) === 1 ? "" : "s"}`;
+  const years = Math.trunc(months / 12);
+  if (years) parts.push(plural(years, "year"));
+  if (months % 12) parts.push(plural(months % 12, "month"));
+  if (days) parts.push(plural(days, "day"));
+  if (micros || parts.length === 0) {
+    parts.push(`${micros < 0 ? "-" : ""}${formatTimeOfDay(Math.abs(micros))}`);
+  }
+  return parts.join(" ");
+};
+
+/**
+ * Formats a BLOB like DuckDB: printable ASCII as is, other bytes as \xHH.
+ */
+const formatBlob = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) =>
+    byte >= 0x20 && byte < 0x7f && byte !== 0x5c
+      ? String.fromCharCode(byte)
+      : `\\x${byte.toString(16).toUpperCase().padStart(2, "0")}`
+  ).join("");
+
+// 64-bit integers become numbers when that's lossless, strings otherwise.
+const convertBigInt = (value: bigint): number | string =>
+  Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+
+/**
+ * Converts a DECIMAL (also used for HUGEINT) to an exact string. Arrow JS
+ * hands them out as little-endian two's complement 32-bit words.
+ */
+const convertDecimal = (words: Uint32Array, scale: number): string => {
+  let value = BigInt(0);
+  for (let i = words.length - 1; i >= 0; i--) {
+    value = (value << BigInt(32)) | BigInt(words[i]);
+  }
+  const bits = BigInt(words.length * 32);
+  if (words[words.length - 1] & 0x80000000) {
+    value -= BigInt(1) << bits;
+  }
+  const digits = (value < 0 ? -value : value).toString();
+  if (scale <= 0) return value < 0 ? `-${digits}` : digits;
+  const padded = digits.padStart(scale + 1, "0");
+  return `${value < 0 ? "-" : ""}${padded.slice(0, -scale)}.${padded.slice(
+    -scale
+  )}`;
+};
+
+const toMicros = (value: number | bigint, unit: TimeUnit): number => {
+  switch (unit) {
+    case TimeUnit.SECOND:
+      return Number(value) * 1_000_000;
+    case TimeUnit.MILLISECOND:
+      return Number(value) * 1000;
+    case TimeUnit.NANOSECOND:
+      return Math.round(Number(value) / 1000);
+    default:
+      return Number(value);
+  }
+};
+
+/**
+ * Best-effort conversion for values whose type isn't known, such as the
+ * members of a UNION.
+ */
+const convertUntyped = (value: unknown): unknown => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "bigint") return convertBigInt(value);
+  if (value instanceof Vector) return convertVector(value);
+  if (value instanceof Uint8Array) return formatBlob(value);
+  if (ArrayBuffer.isView(value)) return String(value);
+  if (typeof value === "object" && "toJSON" in value) {
+    const json = (value as { toJSON: () => unknown }).toJSON();
+    if (json && typeof json === "object") {
+      return Object.fromEntries(
+        Object.entries(json).map(([key, child]) => [key, convertUntyped(child)])
+      );
+    }
+    return json;
+  }
+  return value;
+};
+
+/**
+ * Converts a value read from an Arrow vector of the given type.
+ */
+export const convertArrowValue = (value: unknown, type: DataType): unknown => {
+  if (value === null || value === undefined) return null;
+
+  switch (type.typeId) {
+    case Type.Int:
+    case Type.Duration:
+      return typeof value === "bigint" ? convertBigInt(value) : value;
+    case Type.Decimal:
+      return convertDecimal(value as Uint32Array, (type as Decimal).scale);
+    case Type.Date:
+      return formatDate(new Date(value as number), true);
+    case Type.Timestamp:
+      return formatTimestamp(value as number, (type as Timestamp).timezone);
+    case Type.Time:
+      return formatTimeOfDay(
+        toMicros(value as number | bigint, (type as Time).unit)
+      );
+    case Type.Interval: {
+      const [first, second] = value as Int32Array;
+      // YEAR_MONTH comes as [years, months], DAY_TIME as [days, millis].
+      return (type as Interval).unit === IntervalUnit.YEAR_MONTH
+        ? formatInterval(first * 12 + second, 0, 0)
+        : formatInterval(0, first, second * 1000);
+    }
+    case Type.Binary:
+    case Type.LargeBinary:
+    case Type.FixedSizeBinary:
+      return formatBlob(value as Uint8Array);
+    case Type.List:
+    case Type.FixedSizeList:
+      return convertVector(value as Vector);
+    case Type.Struct: {
+      const row = value as Record<string, unknown>;
+      return Object.fromEntries(
+        type.children.map((field: Field) => [
+          field.name,
+          convertArrowValue(row[field.name], field.type),
+        ])
+      );
+    }
+    case Type.Map: {
+      const [keyField, valueField] = type.children[0].type.children;
+      const entries = value as Iterable<[unknown, unknown]>;
+      return Object.fromEntries(
+        Array.from(entries, ([key, entry]) => [
+          String(convertArrowValue(key, keyField.type)),
+          convertArrowValue(entry, valueField.type),
+        ])
+      );
+    }
+    case Type.Dictionary:
+      return convertArrowValue(value, (type as Dictionary).dictionary);
+    case Type.Union:
+      return convertUntyped(value);
+    default:
+      return value;
+  }
+};
+
+/**
+ * Decodes MONTH_DAY_NANO intervals straight from the vector buffers, since
+ * Arrow JS reads them with the wrong stride (3 words instead of 4).
+ */
+const convertMonthDayNanoVector = (vector: Vector): unknown[] =>
+  vector.data.flatMap((data) => {
+    const { buffer, byteOffset } = data.values;
+    const start = byteOffset - data.offset * 12;
+    const view = new DataView(buffer);
+    return Array.from({ length: data.length }, (_, index) => {
+      if (!data.getValid(index)) return null;
+      const at = start + (data.offset + index) * 16;
+      return formatInterval(
+        view.getInt32(at, true),
+        view.getInt32(at + 4, true),
+        Number(view.getBigInt64(at + 8, true) / BigInt(1000))
+      );
+    });
+  });
+
+/**
+ * Converts every value of an Arrow vector.
+ */
+export const convertVector = (vector: Vector): unknown[] => {
+  const { type } = vector;
+  if (
+    type.typeId === Type.Interval &&
+    (type as Interval).unit === INTERVAL_MONTH_DAY_NANO
+  ) {
+    return convertMonthDayNanoVector(vector);
+  }
+  return Array.from(vector, (value) => convertArrowValue(value, type));
+};
+
+export type NestedValue = unknown[] | Record<string, unknown>;
+
+/**
+ * Returns true for converted LIST, STRUCT and MAP values.
+ */
+export const isNested = (value: unknown): value is NestedValue =>
+  value !== null && typeof value === "object" && !(value instanceof Date);
+
+/**
+ * Converts an Arrow table or record batch into row objects, one column at a
+ * time.
+ */
+export const arrowToRows = (source: {
+  schema: Schema;
+  numRows: number;
+  getChildAt: (index: number) => Vector | null;
+}): Record<string, unknown>[] => {
+  const { fields } = source.schema;
+  const columns = fields.map((_, index) => {
+    const vector = source.getChildAt(index);
+    return vector ? convertVector(vector) : [];
+  });
+  return Array.from({ length: source.numRows }, (_, rowIndex) =>
+    Object.fromEntries(
+      fields.map((field, index) => [field.name, columns[index][rowIndex]])
+    )
+  );
+};
+
+/**
+ * Converts an Arrow table into a QueryResult, keeping the Arrow type of each
+ * column.
+ */
+export const arrowToResult = (table: Table): QueryResult => ({
+  columns: table.schema.fields.map((field) => field.name),
+  columnTypes: table.schema.fields.map((field) => field.type.toString()),
+  data: arrowToRows(table),
+  rowCount: table.numRows,
+});
+
+/**
+ * Returns the size in bytes of the Arrow buffers holding the given batches.
+ */
+export const arrowByteSize = (batches: RecordBatch[]): number =>
+  batches.reduce((size, batch) => size + batch.data.byteLength, 0);
@@ -0,0 +1,550 @@
+// Drivers for the HTTP SQL endpoints an external connection can talk to.
+// Each one knows how to send a query, test the connection, load the catalog
+// and stop a running query for its protocol.
+
+import { tableFromIPC } from "apache-arrow";
+import { arrowToResult } from "@/lib/arrow";
+import { explainAnalyzeStatement } from "@/lib/queryPlan";
+import { quoteLiteral } from "@/lib/sql";
+import type {
+  ColumnInfo,
+  ConnectionDriverId,
+  ConnectionProvider,
+  CurrentConnection,
+  DatabaseInfo,
+  QueryResult,
+  TableInfo,
+} from "@/store";
+
+type ExternalConnection = CurrentConnection | ConnectionProvider;
+
+export interface ExecuteOptions {
+  // Aborts the in-flight request when the query is cancelled.
+  signal?: AbortSignal;
+  // Identifies the query on the server, so it can be cancelled there too.
+  queryId?: string;
+}
+
+export interface ConnectionDriver {
+  id: ConnectionDriverId;
+  label: string;
+  description: string;
+  execute: (
+    query: string,
+    connection: ExternalConnection,
+    options?: ExecuteOptions
+  ) => Promise<QueryResult>;
+  test: (connection: ExternalConnection) => Promise<void>;
+  fetchSchema: (connection: ExternalConnection) => Promise<DatabaseInfo[]>;
+  // Stops the query on the server. Aborting the request is left to the
+  // caller, so drivers without server-side cancellation do nothing here.
+  cancel: (queryId: string, connection: ExternalConnection) => Promise<void>;
+  // Quotes a string literal in the server's dialect, for the parameters
+  // inlined into queries.
+  quoteLiteral: (value: string) => string;
+  // Wraps a statement to return its plan as DuckDB JSON, shown as a graph.
+  // Left out by drivers whose servers can't produce one.
+  explain?: (statement: string) => string;
+}
+
+export const DEFAULT_API_KEY_HEADER = "X-API-Key";
+
+export const DEFAULT_CONNECTION_DRIVER: ConnectionDriverId = "duckdb_http";
+
+//
+// SHARED HELPERS
+//
+
+/**
+ * Builds the authentication headers of an external connection. Connections
+ * saved before auth modes existed have none, and keep using Basic auth when
+ * they have credentials.
+ */
+const getAuthHeaders = (
+  connection: ExternalConnection
+): Record<string, string> => {
+  const authMode =
+    connection.authMode ??
+    (connection.user || connection.password ? "password" : "none");
+  switch (authMode) {
+    case "password":
+      return {
+        Authorization: `Basic ${btoa(
+          `${connection.user ?? ""}:${connection.password ?? ""}`
+        )}`,
+      };
+    case "api_key":
+      return {
+        [connection.apiKeyHeader || DEFAULT_API_KEY_HEADER]:
+          connection.apiKey ?? "",
+      };
+    case "bearer":
+      return { Authorization: `Bearer ${connection.bearerToken ?? ""}` };
+    default:
+      return {};
+  }
+};
+
+const getBaseUrl = (connection: ExternalConnection): string => {
+  if (!connection.host || !connection.port) {
+    throw new Error("Host and port must be defined for external connections.");
+  }
+  return `${connection.host}:${connection.port}/`;
+};
+
+// Result formats in order of preference: Arrow IPC keeps the column types and
+// skips JSON parsing, NDJSON can be parsed line by line, JSON is the fallback.
+const ACCEPT_RESULT_FORMATS =
+  "application/vnd.apache.arrow.stream, application/x-ndjson;q=0.9, application/json;q=0.8";
+const ARROW_CONTENT_TYPES = [
+  "application/vnd.apache.arrow.stream",
+  "application/vnd.apache.arrow.file",
+];
+const NDJSON_CONTENT_TYPES = ["application/x-ndjson", "application/jsonl"];
+
+/**
+ * Sends a request to the endpoint, timing how long the server took to start
+ * answering.
+ */
+const sendRequest = async (
+  url: string,
+  init: RequestInit,
+  connection: ExternalConnection
+): Promise<{ response: Response; timeToFirstRow: number }> => {
+  const startedAt = performance.now();
+  const response = await fetch(url, {
+    method: "POST",
+    ...init,
+    headers: { ...init.headers, ...getAuthHeaders(connection) },
+  });
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `HTTP error! Status: ${response.status}, Message: ${errorText}`
+    );
+  }
+  return { response, timeToFirstRow: performance.now() - startedAt };
+};
+
+const emptyResult = (): QueryResult => ({
+  columns: [],
+  columnTypes: [],
+  data: [],
+  rowCount: 0,
+});
+
+// The meta/data JSON shape of DuckDB HTTP and ClickHouse JSONCompact results.
+interface RawResult {
+  meta: { name: string; type: string }[];
+  data: unknown[][];
+  rows?: number;
+}
+
+// Converts a raw result in the meta/data JSON shape into a QueryResult.
+const rawResultToJSON = (rawResult: string): QueryResult => {
+  try {
+    const parsed = JSON.parse(rawResult) as Partial<RawResult>;
+    if (!Array.isArray(parsed.meta) || !Array.isArray(parsed.data)) {
+      throw new Error(
+        "Invalid raw result format: meta or data are missing or have the wrong format"
+      );
+    }
+    const columns = parsed.meta.map((column) => column.name);
+    const columnTypes = parsed.meta.map((column) => column.type);
+    const data = parsed.data.map((row) => {
+      const rowObject: Record<string, unknown> = {};
+      columns.forEach((col, index) => {
+        rowObject[col] = row[index];
+      });
+      return rowObject;
+    });
+    return {
+      columns,
+      columnTypes,
+      data,
+      rowCount: parsed.rows || data.length,
+    };
+  } catch (error) {
+    console.error("Failed to parse raw result:", error);
+    throw new Error(
+      `Failed to parse raw result: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+};
+
+// Type name of a JSON value, for endpoints that send no column types.
+const getJsonType = (value: unknown): string => {
+  if (typeof value === "number") return "DOUBLE";
+  if (typeof value === "boolean") return "BOOLEAN";
+  if (value !== null && typeof value === "object") return "JSON";
+  return "VARCHAR";
+};
+
+// Converts a list of row objects into a QueryResult.
+const rowsToResult = (rows: Record<string, unknown>[]): QueryResult => {
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  return {
+    columns,
+    columnTypes: columns.map((column) =>
+      getJsonType(rows.find((row) => row[column] != null)?.[column])
+    ),
+    data: rows,
+    rowCount: rows.length,
+  };
+};
+
+// Parses NDJSON, one row object per line.
+const parseNdjson = (text: string): Record<string, unknown>[] =>
+  text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line));
+
+/**
+ * Reads a response into a QueryResult by its content type. Arrow IPC is
+ * decoded like WASM results, so the columns keep their Arrow types; other
+ * bodies are read as text and passed to `parseJson` unless they are NDJSON.
+ */
+const readResult = async (
+  response: Response,
+  parseJson: (text: string) => QueryResult
+): Promise<QueryResult> => {
+  const contentType =
+    response.headers.get("Content-Type")?.split(";")[0].trim().toLowerCase() ??
+    "";
+  if (ARROW_CONTENT_TYPES.includes(contentType)) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return {
+      ...(bytes.byteLength > 0
+        ? arrowToResult(tableFromIPC(bytes))
+        : emptyResult()),
+      byteSize: bytes.byteLength,
+    };
+  }
+  const text = await response.text();
+  const byteSize = new Blob([text]).size;
+  // Statements without a result set may answer with an empty body.
+  if (!text.trim()) return { ...emptyResult(), byteSize };
+  if (NDJSON_CONTENT_TYPES.includes(contentType)) {
+    return { ...rowsToResult(parseNdjson(text)), byteSize };
+  }
+  return { ...parseJson(text), byteSize };
+};
+
+// Parses the JSON bodies a generic JSON API may answer with.
+const parseJsonApiResult = (text: string): QueryResult => {
+  const parsed = JSON.parse(text);
+  if (Array.isArray(parsed)) return rowsToResult(parsed);
+  if (Array.isArray(parsed?.meta)) return rawResultToJSON(text);
+  if (Array.isArray(parsed?.data)) return rowsToResult(parsed.data);
+  throw new Error(
+    "Invalid JSON result format: expected a list of rows or meta/data"
+  );
+};
+
+interface CatalogResults {
+  // catalog_name
+  catalogs: QueryResult;
+  // table_catalog, table_schema, table_name
+  tables: QueryResult;
+  // table_catalog, table_schema, table_name, column_name, data_type,
+  // is_nullable
+  columns: QueryResult;
+  // database_name, schema_name, table_name, estimated_size
+  sizes?: QueryResult;
+}
+
+/**
+ * Groups the rows of the catalog queries into databases and tables. Drivers
+ * alias their catalog columns to the information_schema names above.
+ */
+const buildDatabases = ({
+  catalogs,
+  tables,
+  columns,
+  sizes,
+}: CatalogResults): DatabaseInfo[] => {
+  const tableKey = (database: unknown, schema: unknown, table: unknown) =>
+    JSON.stringify([database, schema, table]);
+
+  const rowCounts = new Map<string, number>();
+  sizes?.data.forEach((row) => {
+    rowCounts.set(
+      tableKey(row.database_name, row.schema_name, row.table_name),
+      Number(row.estimated_size ?? 0)
+    );
+  });
+
+  const columnsByTable = new Map<string, ColumnInfo[]>();
+  columns.data.forEach((row) => {
+    const key = tableKey(row.table_catalog, row.table_schema, row.table_name);
+    const tableColumns = columnsByTable.get(key) ?? [];
+    tableColumns.push({
+      name: String(row.column_name),
+      type: String(row.data_type),
+      nullable: row.is_nullable === "YES",
+    });
+    columnsByTable.set(key, tableColumns);
+  });
+
+  const databases = new Map<string, TableInfo[]>(
+    catalogs.data.map((row) => [String(row.catalog_name), []])
+  );
+  tables.data.forEach((row) => {
+    const key = tableKey(row.table_catalog, row.table_schema, row.table_name);
+    const database = String(row.table_catalog);
+    const databaseTables = databases.get(database) ?? [];
+    databaseTables.push({
+      name: String(row.table_name),
+      schema: String(row.table_schema),
+      columns: columnsByTable.get(key) ?? [],
+      rowCount: rowCounts.get(key) ?? 0,
+      createdAt: new Date().toISOString(),
+    });
+    databases.set(database, databaseTables);
+  });
+
+  return Array.from(databases, ([name, databaseTables]) => ({
+    name,
+    tables: databaseTables,
+  }));
+};
+
+const INFORMATION_SCHEMA_CATALOGS = `SELECT DISTINCT catalog_name FROM information_schema.schemata
+  WHERE catalog_name NOT IN ('system', 'temp') ORDER BY catalog_name`;
+const INFORMATION_SCHEMA_TABLES = `SELECT table_catalog, table_schema, table_name
+  FROM information_schema.tables
+  WHERE table_catalog NOT IN ('system', 'temp')
+  ORDER BY table_schema, table_name`;
+const INFORMATION_SCHEMA_COLUMNS = `SELECT table_catalog, table_schema, table_name, column_name,
+       data_type, is_nullable
+  FROM information_schema.columns
+  WHERE table_catalog NOT IN ('system', 'temp')
+  ORDER BY ordinal_position`;
+
+// Checks the endpoint answers a trivial query.
+const testConnection = async (
+  driver: ConnectionDriver,
+  connection: ExternalConnection
+): Promise<void> => {
+  try {
+    await driver.execute("SELECT 1", connection);
+  } catch (error) {
+    throw new Error(
+      `Connection test failed! ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+};
+
+//
+// DRIVERS
+//
+
+/**
+ * The duck-ui HTTP protocol served by quackpy and DuckDB's http_server
+ * extension: the query is the POST body and the result comes back as Arrow
+ * IPC or NDJSON when the server supports it, and as meta/data JSON otherwise.
+ */
+const duckdbHttpDriver: ConnectionDriver = {
+  id: "duckdb_http",
+  label: "DuckDB HTTP",
+  description: "quackpy or the DuckDB http_server extension",
+
+  execute: async (query, connection, options) => {
+    const { response, timeToFirstRow } = await sendRequest(
+      getBaseUrl(connection),
+      {
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: ACCEPT_RESULT_FORMATS,
+        },
+        body: query,
+        signal: options?.signal,
+      },
+      connection
+    );
+    return {
+      ...(await readResult(response, rawResultToJSON)),
+      timeToFirstRow,
+    };
+  },
+
+  test: (connection) => testConnection(duckdbHttpDriver, connection),
+
+  // Loads the catalog in a few round trips: the databases and tables from
+  // information_schema, and the row counts from the estimates in
+  // duckdb_tables(), as counting every table remotely is too slow.
+  fetchSchema: async (connection) => {
+    const [catalogs, tables, columns, sizes] = await Promise.all(
+      [
+        INFORMATION_SCHEMA_CATALOGS,
+        INFORMATION_SCHEMA_TABLES,
+        INFORMATION_SCHEMA_COLUMNS,
+        `SELECT database_name, schema_name, table_name, estimated_size
+         FROM duckdb_tables() WHERE NOT internal`,
+      ].map((query) => duckdbHttpDriver.execute(query, connection))
+    );
+    return buildDatabases({ catalogs, tables, columns, sizes });
+  },
+
+  cancel: async () => {},
+
+  quoteLiteral,
+
+  explain: explainAnalyzeStatement,
+};
+
+// ClickHouse string literals treat a backslash as an escape, so it has to be
+// escaped along with the quote.
+const quoteClickHouseLiteral = (value: string): string =>
+  `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+
+const CLICKHOUSE_SYSTEM_DATABASES =
+  "('system', 'INFORMATION_SCHEMA', 'information_schema')";
+
+/**
+ * ClickHouse's HTTP interface. Results are requested as JSONCompact, which
+ * has the same meta/data shape, and each query carries an id so it can be
+ * killed on the server.
+ */
+const clickhouseHttpDriver: ConnectionDriver = {
+  id: "clickhouse_http",
+  label: "ClickHouse HTTP",
+  description: "ClickHouse or any server speaking its HTTP interface",
+
+  execute: async (query, connection, options) => {
+    const params = new URLSearchParams({ default_format: "JSONCompact" });
+    if (connection.database) params.set("database", connection.database);
+    if (options?.queryId) params.set("query_id", options.queryId);
+    const { response, timeToFirstRow } = await sendRequest(
+      `${getBaseUrl(connection)}?${params}`,
+      {
+        headers: { "Content-Type": "text/plain" },
+        body: query,
+        signal: options?.signal,
+      },
+      connection
+    );
+    return {
+      ...(await readResult(response, rawResultToJSON)),
+      timeToFirstRow,
+    };
+  },
+
+  test: (connection) => testConnection(clickhouseHttpDriver, connection),
+
+  // ClickHouse has no schemas, so tables are listed directly under their
+  // database with an empty schema.
+  fetchSchema: async (connection) => {
+    const [catalogs, tables, columns, sizes] = await Promise.all(
+      [
+        `SELECT name AS catalog_name FROM system.databases
+         WHERE name NOT IN ${CLICKHOUSE_SYSTEM_DATABASES} ORDER BY name`,
+        `SELECT database AS table_catalog, '' AS table_schema,
+                name AS table_name
+         FROM system.tables
+         WHERE database NOT IN ${CLICKHOUSE_SYSTEM_DATABASES}
+         ORDER BY name`,
+        `SELECT database AS table_catalog, '' AS table_schema,
+                table AS table_name, name AS column_name, type AS data_type,
+                if(startsWith(type, 'Nullable'), 'YES', 'NO') AS is_nullable
+         FROM system.columns
+         WHERE database NOT IN ${CLICKHOUSE_SYSTEM_DATABASES}
+         ORDER BY position`,
+        `SELECT database AS database_name, '' AS schema_name,
+                name AS table_name, total_rows AS estimated_size
+         FROM system.tables
+         WHERE database NOT IN ${CLICKHOUSE_SYSTEM_DATABASES}`,
+      ].map((query) => clickhouseHttpDriver.execute(query, connection))
+    );
+    return buildDatabases({ catalogs, tables, columns, sizes });
+  },
+
+  cancel: async (queryId, connection) => {
+    await clickhouseHttpDriver.execute(
+      `KILL QUERY WHERE query_id = ${quoteClickHouseLiteral(queryId)} ASYNC`,
+      connection
+    );
+  },
+
+  quoteLiteral: quoteClickHouseLiteral,
+};
+
+/**
+ * A generic JSON API: the query is posted as `{ query, database }` and the
+ * response is Arrow IPC, NDJSON, meta/data JSON, a list of row objects, or an
+ * object with the rows under `data`.
+ */
+const jsonApiDriver: ConnectionDriver = {
+  id: "json_api",
+  label: "JSON API",
+  description: "Any endpoint taking a JSON query and returning JSON rows",
+
+  execute: async (query, connection, options) => {
+    const { response, timeToFirstRow } = await sendRequest(
+      getBaseUrl(connection),
+      {
+        headers: {
+          "Content-Type": "application/json",
+          Accept: ACCEPT_RESULT_FORMATS,
+        },
+        body: JSON.stringify({ query, database: connection.database }),
+        signal: options?.signal,
+      },
+      connection
+    );
+    return {
+      ...(await readResult(response, parseJsonApiResult)),
+      timeToFirstRow,
+    };
+  },
+
+  test: (connection) => testConnection(jsonApiDriver, connection),
+
+  // Row counts aren't part of information_schema, so they stay unknown.
+  fetchSchema: async (connection) => {
+    const [catalogs, tables, columns] = await Promise.all(
+      [
+        INFORMATION_SCHEMA_CATALOGS,
+        INFORMATION_SCHEMA_TABLES,
+        INFORMATION_SCHEMA_COLUMNS,
+      ].map((query) => jsonApiDriver.execute(query, connection))
+    );
+    return buildDatabases({ catalogs, tables, columns });
+  },
+
+  cancel: async () => {},
+
+  quoteLiteral,
+};
+
+export const CONNECTION_DRIVERS: ConnectionDriver[] = [
+  duckdbHttpDriver,
+  clickhouseHttpDriver,
+  jsonApiDriver,
+];
+
+/**
+ * Returns the driver of an external connection. Connections saved before
+ * drivers existed use the DuckDB HTTP protocol.
+ */
+export const getConnectionDriver = (
+  connection: ExternalConnection
+): ConnectionDriver =>
+  CONNECTION_DRIVERS.find((driver) => driver.id === connection.driver) ??
+  duckdbHttpDriver;
+
+/**
+ * Returns how to explain a statement on a connection, or undefined when its
+ * server can't. Built-in connections run DuckDB-Wasm.
+ */
+export const getExplainStatement = (
+  connection: CurrentConnection | null
+): ((statement: string) => string) | undefined =>
+  connection?.scope === "External"
+    ? getConnectionDriver(connection).explain
+    : explainAnalyzeStatement;
@@ -0,0 +1,597 @@
+// Helpers to import files into DuckDB: detecting their format and building
+// the `read_*` table function that reads them, locally or over httpfs.
+import { unzip } from "fflate";
+import { z } from "zod";
+import { quoteIdentifier, quoteLiteral } from "@/lib/sql";
+import type { DatabaseInfo, ImportResult, TableInfo } from "@/store";
+
+export type ImportFormat = "parquet" | "csv" | "json";
+
+export const IMPORT_FORMATS: ImportFormat[] = ["parquet", "csv", "json"];
+
+const FORMAT_EXTENSIONS: Record<string, ImportFormat> = {
+  parquet: "parquet",
+  pq: "parquet",
+  csv: "csv",
+  tsv: "csv",
+  json: "json",
+  jsonl: "json",
+  ndjson: "json",
+};
+
+// Compressions DuckDB recognizes from the file extension and decompresses
+// while reading, and the formats it can read compressed.
+const COMPRESSION_EXTENSIONS = new Map([
+  ["gz", "gzip"],
+  ["zst", "zstd"],
+]);
+const COMPRESSIBLE_TYPES = ["csv", "tsv", "json", "jsonl", "ndjson"];
+
+// A {a,b,c} list or a {1..12} range in a URL pattern.
+const BRACE_PATTERN = /\{([^{}]*)\}/;
+const RANGE_PATTERN = /^(-?\d+)\.\.(-?\d+)$/;
+// Expanding a pattern into more files than this is most likely a mistake.
+const MAX_EXPANDED_URLS = 1_000;
+
+// The file name of a path or URL, without any query string.
+const getBaseName = (path: string): string =>
+  path.split(/[?#]/)[0].split("/").pop() ?? "";
+
+/**
+ * Returns true when a file name ends with a compression DuckDB reads
+ * through, e.g. `sales.csv.gz`.
+ */
+export const isCompressed = (path: string): boolean => {
+  const parts = getBaseName(path).toLowerCase().split(".");
+  return (
+    parts.length > 2 && COMPRESSION_EXTENSIONS.has(parts[parts.length - 1])
+  );
+};
+
+/**
+ * Returns the `compression` option of DuckDB's readers for a compressed file
+ * name, e.g. "gzip" for `sales.csv.gz`.
+ */
+export const getCompression = (path: string): string | undefined =>
+  isCompressed(path)
+    ? COMPRESSION_EXTENSIONS.get(
+        getBaseName(path).toLowerCase().split(".").pop()!
+      )
+    : undefined;
+
+/**
+ * Returns the lowercase extension giving the type of a file, looking past a
+ * compression extension: `sales.csv.gz` is a csv file.
+ */
+export const getFileType = (path: string): string => {
+  const parts = getBaseName(path).toLowerCase().split(".");
+  if (isCompressed(path)) parts.pop();
+  return parts.length > 1 ? parts[parts.length - 1] : "";
+};
+
+/**
+ * Returns true when a file of this type can be imported compressed.
+ */
+export const canReadCompressed = (fileType: string): boolean =>
+  COMPRESSIBLE_TYPES.includes(fileType);
+
+/**
+ * Detects the format of a file from the extension of its path or URL,
+ * ignoring any query string.
+ */
+export const detectImportFormat = (path: string): ImportFormat | undefined =>
+  FORMAT_EXTENSIONS[getFileType(path)];
+
+/**
+ * Expands the {a,b} lists and {1..12} ranges of a URL pattern, since HTTP
+ * servers can't be listed for DuckDB to glob them. Ranges keep the zero
+ * padding of their bounds, so {01..12} gives 01, 02, ... 12.
+ */
+export const expandUrlPattern = (pattern: string): string[] => {
+  const match = BRACE_PATTERN.exec(pattern);
+  if (!match) return [pattern];
+
+  const tooMany = () =>
+    new Error(`The pattern expands to more than ${MAX_EXPANDED_URLS} files.`);
+  let alternatives: string[];
+  const range = RANGE_PATTERN.exec(match[1]);
+  if (range) {
+    const [start, end] = [Number(range[1]), Number(range[2])];
+    if (Math.abs(end - start) >= MAX_EXPANDED_URLS) throw tooMany();
+    const width = range[1].startsWith("0") ? range[1].length : 0;
+    const step = start <= end ? 1 : -1;
+    alternatives = Array.from(
+      { length: Math.abs(end - start) + 1 },
+      (_, index) => String(start + index * step).padStart(width, "0")
+    );
+  } else {
+    alternatives = match[1].split(",");
+  }
+
+  const head = pattern.slice(0, match.index);
+  const tail = pattern.slice(match.index + match[0].length);
+  const urls: string[] = [];
+  for (const alternative of alternatives) {
+    urls.push(...expandUrlPattern(`${head}${alternative}${tail}`));
+    if (urls.length > MAX_EXPANDED_URLS) throw tooMany();
+  }
+  return urls;
+};
+
+/**
+ * Parses the http(s) URLs entered for an import, separated by new lines or
+ * spaces, expanding their patterns.
+ */
+export const parseImportUrls = (input: string): string[] => {
+  const patterns = input.split(/\s+/).filter(Boolean);
+  if (patterns.length === 0) throw new Error("Enter at least one URL.");
+
+  const urls = patterns.flatMap(expandUrlPattern);
+  if (urls.length > MAX_EXPANDED_URLS) {
+    throw new Error(`Imports are limited to ${MAX_EXPANDED_URLS} files.`);
+  }
+  urls.forEach((url) => {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new Error(`Invalid URL: ${url}`);
+    }
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      throw new Error(`Only http(s) URLs can be imported: ${url}`);
+    }
+    if (/[*?]/.test(parsed.pathname)) {
+      throw new Error(
+        "HTTP servers can't be listed, so * and ? globs aren't supported. " +
+          "List the files with {a,b} or {1..12} instead."
+      );
+    }
+  });
+  return urls;
+};
+
+/**
+ * Returns true when a path has hive-style key=value directories, e.g.
+ * `.../year=2024/month=01/data.parquet`.
+ */
+export const hasHivePartitions = (path: string): boolean =>
+  /\/[^/=]+=[^/]*\//.test(path.split(/[?#]/)[0]);
+
+/**
+ * Derives a table name from the file name of a path.
+ */
+export const getDefaultTableName = (path: string): string =>
+  getBaseName(path)
+    .replace(isCompressed(path) ? /\.[^.]*\.[^.]*$/ : /\.[^.]*$/, "")
+    .replace(/[^a-zA-Z0-9_]/g, "_")
+    .toLowerCase();
+
+// Name of the table a sheet of a workbook is imported into by default.
+export const getSheetTableName = (fileName: string, sheet: string): string =>
+  `${getDefaultTableName(fileName)}_${sheet
+    .replace(/[^a-zA-Z0-9_]/g, "_")
+    .toLowerCase()}`;
+
+// Imported tables are referenced unquoted in SQL, so keep names simple.
+export const tableNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Table name cannot be empty")
+  .regex(
+    /^[a-zA-Z0-9_]+$/,
+    "Table name can only contain letters, numbers, and underscores"
+  );
+
+export interface ReadExpressionOptions {
+  hivePartitioning?: boolean;
+}
+
+/**
+ * Builds the `read_*` call reading the given files. Several files are read
+ * as one relation, matching their columns by name.
+ */
+export const buildReadExpression = (
+  paths: string[],
+  format: ImportFormat,
+  { hivePartitioning = false }: ReadExpressionOptions = {}
+): string => {
+  const source =
+    paths.length === 1
+      ? quoteLiteral(paths[0])
+      : `[${paths.map(quoteLiteral).join(", ")}]`;
+  const options = [
+    hivePartitioning && "hive_partitioning = true",
+    paths.length > 1 && "union_by_name = true",
+    format === "json" && "auto_detect = true",
+  ].filter(Boolean);
+  return `read_${format}(${[source, ...options].join(", ")})`;
+};
+
+// A column of an imported file, as read from the file and as it should be
+// created in the table.
+export interface ImportColumn {
+  source: string;
+  sourceType: string;
+  name: string;
+  type: string;
+  include: boolean;
+}
+
+// Types offered when overriding a column; any DuckDB type can be typed in.
+export const COMMON_COLUMN_TYPES = [
+  "VARCHAR",
+  "BOOLEAN",
+  "INTEGER",
+  "BIGINT",
+  "DOUBLE",
+  "DECIMAL(18,3)",
+  "DATE",
+  "TIME",
+  "TIMESTAMP",
+  "JSON",
+];
+
+// A type name with optional parameters and list suffixes, e.g. DECIMAL(18,3)
+// or VARCHAR[]. Checked before it's spliced into a CAST.
+const COLUMN_TYPE_PATTERN =
+  /^[a-zA-Z][a-zA-Z0-9_ ]*(\(\s*\d+\s*(,\s*\d+\s*)?\))?(\[\])*$/;
+
+/**
+ * Starts the columns of an import from the schema sniffed from the file,
+ * keeping every column as it is.
+ */
+export const toImportColumns = (
+  schema: { name: string; type: string }[]
+): ImportColumn[] =>
+  schema.map(({ name, type }) => ({
+    source: name,
+    sourceType: type,
+    name,
+    type,
+    include: true,
+  }));
+
+/**
+ * Returns true when the columns change nothing of what's in the file.
+ */
+export const isDefaultImport = (columns: ImportColumn[]): boolean =>
+  columns.every(
+    (column) =>
+      column.include &&
+      column.name === column.source &&
+      column.type === column.sourceType
+  );
+
+/**
+ * Builds a `{'name': 'TYPE', ...}` struct, the shape of the `columns=` and
+ * `types=` options of the `read_*` functions.
+ */
+export const buildColumnTypesOption = (
+  columns: Pick<ImportColumn, "source" | "type">[]
+): string =>
+  `{${columns
+    .map(
+      (column) => `${quoteLiteral(column.source)}: ${quoteLiteral(column.type)}`
+    )
+    .join(", ")}}`;
+
+/**
+ * Builds the select list applying renames and excluded columns. Types are
+ * cast here only when the reader couldn't apply them itself.
+ */
+export const buildImportProjection = (
+  columns: ImportColumn[],
+  { castTypes }: { castTypes: boolean }
+): string => {
+  if (isDefaultImport(columns)) return "*";
+  const included = columns.filter((column) => column.include);
+  if (included.length === 0) {
+    throw new Error("Select at least one column to import.");
+  }
+  const names = new Set<string>();
+  included.forEach((column) => {
+    if (!column.name.trim()) throw new Error("Column names can't be empty.");
+    if (names.has(column.name.toLowerCase())) {
+      throw new Error(`Duplicate column name: ${column.name}`);
+    }
+    names.add(column.name.toLowerCase());
+    if (!COLUMN_TYPE_PATTERN.test(column.type)) {
+      throw new Error(`Invalid type for ${column.name}: ${column.type}`);
+    }
+  });
+  return included
+    .map((column) => {
+      const source = quoteIdentifier(column.source);
+      const value =
+        castTypes && column.type !== column.sourceType
+          ? `CAST(${source} AS ${column.type})`
+          : source;
+      return `${value} AS ${quoteIdentifier(column.name)}`;
+    })
+    .join(", ");
+};
+
+// How an import treats a table that may already exist.
+export type ImportMode = "create" | "replace" | "append" | "upsert" | "view";
+
+export const IMPORT_MODES: {
+  value: ImportMode;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "create",
+    label: "Create",
+    description: "Create a new table; fails if it already exists.",
+  },
+  {
+    value: "replace",
+    label: "Replace",
+    description: "Drop the table and its rows, and create it from the file.",
+  },
+  {
+    value: "append",
+    label: "Append",
+    description: "Add the rows of the file to the table.",
+  },
+  {
+    value: "upsert",
+    label: "Upsert",
+    description: "Update the rows whose key columns match, and add the others.",
+  },
+  {
+    value: "view",
+    label: "Query in place",
+    description:
+      "Create a view reading the data where it is, without copying it. The browser only grants access to local files until the page is reloaded, so they can't be queried in place in databases saved in the browser.",
+  },
+];
+
+export const DEFAULT_IMPORT_MODE: { mode: ImportMode; keyColumns: string[] } = {
+  mode: "create",
+  keyColumns: [],
+};
+
+// Describes the rows written by an import, e.g. "120 rows inserted, 3 updated".
+export const formatImportResult = ({
+  inserted,
+  updated,
+  rejected,
+}: ImportResult): string =>
+  `${inserted.toLocaleString()} ${inserted === 1 ? "row" : "rows"} inserted` +
+  (updated > 0 ? `, ${updated.toLocaleString()} updated` : "") +
+  (rejected && rejected.count > 0
+    ? `, ${rejected.count.toLocaleString()} rejected (see ${rejected.table})`
+    : "");
+
+/**
+ * Returns true for the formats DuckDB can read straight from a registered
+ * file, which a view can then query in place.
+ */
+export const canQueryInPlace = (fileType: string): boolean =>
+  (IMPORT_FORMATS as string[]).includes(fileType.toLowerCase());
+
+// Types that convert into each other without losing their meaning.
+const TYPE_FAMILIES: [string, RegExp][] = [
+  [
+    "number",
+    /^(u?(tiny|small|big|huge)?int|integer|float|double|real|decimal|numeric)/i,
+  ],
+  ["text", /^(varchar|text|string|char|bpchar|uuid|json)/i],
+  ["time", /^(date|time|timestamp|interval)/i],
+  ["boolean", /^bool/i],
+];
+
+const getTypeFamily = (type: string) =>
+  TYPE_FAMILIES.find(([, pattern]) => pattern.test(type))?.[0] ?? type;
+
+/**
+ * Checks that the columns of a file can be loaded into an existing table,
+ * returning the problems found. Columns are matched by name, as with
+ * `INSERT ... BY NAME`; any type can go into a text column.
+ */
+export const checkSchemaCompatibility = (
+  incoming: { name: string; type: string }[],
+  existing: { name: string; type: string }[],
+  keyColumns: string[] = []
+): string[] => {
+  const problems: string[] = [];
+  const columns = new Map(
+    existing.map((column) => [column.name.toLowerCase(), column])
+  );
+  incoming.forEach((column) => {
+    const target = columns.get(column.name.toLowerCase());
+    if (!target) {
+      problems.push(`${column.name} isn't a column of the table`);
+    } else if (
+      getTypeFamily(target.type) !== "text" &&
+      getTypeFamily(column.type) !== getTypeFamily(target.type)
+    ) {
+      problems.push(
+        `${column.name} is ${column.type} in the file but ${target.type} in the table`
+      );
+    }
+  });
+  const incomingNames = new Set(
+    incoming.map((column) => column.name.toLowerCase())
+  );
+  keyColumns.forEach((key) => {
+    if (!incomingNames.has(key.toLowerCase())) {
+      problems.push(`Key column ${key} is missing from the file`);
+    }
+  });
+  return problems;
+};
+
+/**
+ * Finds the table an import into the given database would write to. Tables
+ * are created in the default schema, and names are case-insensitive.
+ */
+export const findTable = (
+  databases: DatabaseInfo[],
+  database: string,
+  tableName: string
+): TableInfo | undefined =>
+  databases
+    .find((db) => db.name === database)
+    ?.tables.find(
+      (table) =>
+        table.schema === "main" &&
+        table.name.toLowerCase() === tableName.trim().toLowerCase()
+    );
+
+/**
+ * Extracts the files of a ZIP archive that pass the filter, skipping
+ * directories and the metadata macOS adds to archives. Each entry is named
+ * with its path in the archive.
+ */
+export const extractZipEntries = async (
+  archive: File,
+  accept: (name: string) => boolean
+): Promise<File[]> => {
+  const data = new Uint8Array(await archive.arrayBuffer());
+  const entries = await new Promise<Record<string, Uint8Array>>(
+    (resolve, reject) =>
+      unzip(
+        data,
+        {
+          filter: ({ name }) =>
+            !name.endsWith("/") &&
+            !name.startsWith("__MACOSX/") &&
+            !getBaseName(name).startsWith(".") &&
+            accept(name),
+        },
+        (error, files) => (error ? reject(error) : resolve(files))
+      )
+  );
+  return Object.entries(entries).map(
+    ([name, content]) =>
+      new File([content], name, { lastModified: archive.lastModified })
+  );
+};
+
+// Cell ranges read_xlsx accepts, e.g. A1:F100.
+export const EXCEL_RANGE_PATTERN = /^[A-Z]{1,3}[1-9]\d*:[A-Z]{1,3}[1-9]\d*$/i;
+
+/**
+ * Lists the sheets of an .xlsx workbook in their order in the workbook. Only
+ * the part of the archive naming them is inflated.
+ */
+export const listWorkbookSheets = async (workbook: File): Promise<string[]> => {
+  const data = new Uint8Array(await workbook.arrayBuffer());
+  const parts = await new Promise<Record<string, Uint8Array>>(
+    (resolve, reject) =>
+      unzip(
+        data,
+        { filter: ({ name }) => name === "xl/workbook.xml" },
+        (error, files) => (error ? reject(error) : resolve(files))
+      )
+  );
+  const xml = parts["xl/workbook.xml"];
+  if (!xml) throw new Error("Not an Excel workbook");
+  const document = new DOMParser().parseFromString(
+    new TextDecoder().decode(xml),
+    "application/xml"
+  );
+  return Array.from(
+    document.getElementsByTagName("sheet"),
+    (sheet) => sheet.getAttribute("name") ?? ""
+  ).filter(Boolean);
+};
+
+// A file of a folder being imported, with its path inside the folder.
+export interface FolderFile {
+  path: string;
+  file: File;
+}
+
+// A hive partition column found in the paths of a folder, with its values.
+export interface HivePartition {
+  name: string;
+  values: string[];
+}
+
+/**
+ * Picks the format most files of a folder share. Other files, such as the
+ * _SUCCESS markers written next to Spark output, are left out of the import.
+ */
+export const pickFolderFormat = (
+  files: FolderFile[]
+): ImportFormat | undefined => {
+  const counts = new Map<ImportFormat, number>();
+  files.forEach(({ path }) => {
+    const format = detectImportFormat(path);
+    if (format) counts.set(format, (counts.get(format) ?? 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * Lists the hive partition columns in the key=value directories of the
+ * paths, in the order they're nested, with their distinct values.
+ */
+export const getHivePartitions = (paths: string[]): HivePartition[] => {
+  const partitions = new Map<string, Set<string>>();
+  paths.forEach((path) =>
+    path
+      .split("/")
+      .slice(0, -1)
+      .forEach((segment) => {
+        const separator = segment.indexOf("=");
+        if (separator <= 0) return;
+        const name = segment.slice(0, separator);
+        if (!partitions.has(name)) partitions.set(name, new Set());
+        partitions
+          .get(name)!
+          .add(decodeURIComponent(segment.slice(separator + 1)));
+      })
+  );
+  return [...partitions.entries()].map(([name, values]) => ({
+    name,
+    values: [...values].sort(),
+  }));
+};
+
+/**
+ * Reads all the files of a folder dropped on the page, recursively.
+ */
+export const readDroppedFolder = async (
+  directory: FileSystemDirectoryEntry,
+  prefix = ""
+): Promise<FolderFile[]> => {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // Entries come in batches, until an empty one.
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+
+  const files = await Promise.all(
+    entries.map(async (entry): Promise<FolderFile[]> => {
+      const path = `${prefix}${entry.name}`;
+      if (entry.isDirectory) {
+        return readDroppedFolder(entry as FileSystemDirectoryEntry, `${path}/`);
+      }
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      );
+      return [{ path, file }];
+    })
+  );
+  return files.flat();
+};
+
+/**
+ * Groups the files picked with a folder input by their top-level folder,
+ * using the relative paths the browser gives them.
+ */
+export const groupFolderFiles = (files: File[]): Record<string, FolderFile[]> =>
+  files.reduce<Record<string, FolderFile[]>>((folders, file) => {
+    const [folder, ...rest] = file.webkitRelativePath.split("/");
+    (folders[folder] ??= []).push({ path: rest.join("/"), file });
+    return folders;
+  }, {});
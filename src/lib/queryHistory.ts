@@ -0,0 +1,76 @@
+// IndexedDB storage for the query history log. Unlike the rest of the store,
+// the history is unbounded, so it doesn't live in localStorage.
+import type { QueryHistoryItem } from "@/store";
+
+const DB_NAME = "duck-ui-history";
+const DB_VERSION = 1;
+const STORE_NAME = "queries";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openHistoryDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, {
+          keyPath: "id",
+        });
+        store.createIndex("timestamp", "timestamp");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a request against the history object store and resolves with its
+ * result once the transaction completes.
+ */
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openHistoryDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request?.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Loads the whole history, newest first.
+ */
+export const getHistoryItems = async (): Promise<QueryHistoryItem[]> => {
+  const items = await withStore<QueryHistoryItem[]>("readonly", (store) =>
+    store.index("timestamp").getAll()
+  );
+  return (items ?? []).reverse();
+};
+
+/**
+ * Adds or replaces history items.
+ */
+export const putHistoryItems = async (items: QueryHistoryItem[]) => {
+  await withStore("readwrite", (store) => {
+    items.forEach((item) => store.put(item));
+  });
+};
+
+/**
+ * Deletes every history item except the given ones.
+ */
+export const clearHistoryItems = async (keep: QueryHistoryItem[] = []) => {
+  await withStore("readwrite", (store) => {
+    store.clear();
+    keep.forEach((item) => store.put(item));
+  });
+};
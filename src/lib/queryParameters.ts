@@ -0,0 +1,98 @@
+// Binding of `:name` / `{{name}}` placeholders to the values entered in the
+// parameter bar of a tab.
+import type { QueryParameterType, QueryParameterValue } from "@/store";
+import { quoteLiteral, replaceQueryParameters } from "@/lib/sql";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Guesses the input type of a parameter from its name, e.g. `:start_date`.
+ */
+export const inferParameterType = (name: string): QueryParameterType => {
+  if (/^(is|has)_/i.test(name)) return "boolean";
+  if (/(^|_)(date|day)$|_(at|on)$/i.test(name)) return "date";
+  if (/(^|_)(limit|count|num|min|max|amount|year)$/i.test(name)) {
+    return "number";
+  }
+  return "text";
+};
+
+/**
+ * Returns the entered value of a parameter, or an empty one of the inferred
+ * type when nothing was entered yet.
+ */
+export const getQueryParameter = (
+  parameters: Record<string, QueryParameterValue> | undefined,
+  name: string
+): QueryParameterValue =>
+  parameters?.[name] ?? { type: inferParameterType(name), value: "" };
+
+/**
+ * Validates a parameter value and returns it as the JS value to bind.
+ */
+const toBindValue = (
+  name: string,
+  parameter: QueryParameterValue
+): string | number | boolean => {
+  const value = parameter.value.trim();
+  switch (parameter.type) {
+    case "number": {
+      const number = Number(value);
+      if (!value || !Number.isFinite(number)) {
+        throw new Error(`Parameter "${name}" must be a number`);
+      }
+      return number;
+    }
+    case "date":
+      if (!DATE_PATTERN.test(value)) {
+        throw new Error(`Parameter "${name}" must be a date (YYYY-MM-DD)`);
+      }
+      return value;
+    case "boolean":
+      return value === "true";
+    default:
+      return parameter.value;
+  }
+};
+
+/**
+ * Turns the placeholders of a statement into `?` markers for a prepared
+ * statement, and returns the values to bind in order.
+ */
+export const prepareQueryParameters = (
+  statement: string,
+  parameters: Record<string, QueryParameterValue>
+): { sql: string; values: (string | number | boolean)[] } => {
+  const values: (string | number | boolean)[] = [];
+  const sql = replaceQueryParameters(statement, (name) => {
+    const parameter = getQueryParameter(parameters, name);
+    values.push(toBindValue(name, parameter));
+    return parameter.type === "date" ? "CAST(? AS DATE)" : "?";
+  });
+  return { sql, values };
+};
+
+/**
+ * Replaces the placeholders of a statement with escaped SQL literals, for
+ * connections that can't run prepared statements. Text is quoted with the
+ * connection's own escaping rules.
+ */
+export const inlineQueryParameters = (
+  statement: string,
+  parameters: Record<string, QueryParameterValue>,
+  quote: (value: string) => string = quoteLiteral
+): string =>
+  replaceQueryParameters(statement, (name) => {
+    const parameter = getQueryParameter(parameters, name);
+    const value = toBindValue(name, parameter);
+    switch (parameter.type) {
+      case "number":
+        return String(value);
+      case "date":
+        return `DATE '${value}'`;
+      case "boolean":
+        return value ? "TRUE" : "FALSE";
+      default:
+        return quote(String(value));
+    }
+  });
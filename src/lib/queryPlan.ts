@@ -0,0 +1,123 @@
+// Parsing of the JSON plans DuckDB returns for `EXPLAIN (FORMAT JSON)` and
+// `EXPLAIN (ANALYZE, FORMAT JSON)`.
+
+import { getStatementKeyword } from "@/lib/sql";
+
+export interface QueryPlanNode {
+  id: string;
+  name: string;
+  // Rows the operator produced; only known for analyzed plans.
+  cardinality?: number;
+  estimatedCardinality?: number;
+  // Time spent in the operator itself, in ms, and its share of the total.
+  timing?: number;
+  percentage?: number;
+  details: Record<string, string>;
+  children: QueryPlanNode[];
+}
+
+export interface QueryPlan {
+  root: QueryPlanNode;
+  analyzed: boolean;
+  // Sum of the operator timings, in ms.
+  totalTiming?: number;
+}
+
+interface RawPlanNode {
+  name?: string;
+  operator_name?: string;
+  operator_type?: string;
+  operator_timing?: number;
+  operator_cardinality?: number;
+  extra_info?: Record<string, string | string[]>;
+  children?: RawPlanNode[];
+}
+
+const ESTIMATED_CARDINALITY = "Estimated Cardinality";
+
+const toPlanNode = (raw: RawPlanNode, id: string): QueryPlanNode => {
+  const details: Record<string, string> = {};
+  let estimatedCardinality: number | undefined;
+  Object.entries(raw.extra_info ?? {}).forEach(([key, value]) => {
+    if (key === ESTIMATED_CARDINALITY) {
+      estimatedCardinality = Number(value);
+    } else {
+      details[key] = Array.isArray(value) ? value.join("\n") : String(value);
+    }
+  });
+  return {
+    id,
+    name: raw.operator_name?.trim() || raw.name?.trim() || "UNKNOWN",
+    cardinality: raw.operator_cardinality,
+    estimatedCardinality,
+    timing:
+      raw.operator_timing !== undefined
+        ? raw.operator_timing * 1000
+        : undefined,
+    details,
+    children: (raw.children ?? []).map((child, index) =>
+      toPlanNode(child, `${id}.${index}`)
+    ),
+  };
+};
+
+const sumTiming = (node: QueryPlanNode): number =>
+  node.children.reduce((total, child) => total + sumTiming(child), 0) +
+  (node.timing ?? 0);
+
+const setPercentages = (node: QueryPlanNode, total: number) => {
+  node.percentage = total > 0 ? ((node.timing ?? 0) / total) * 100 : 0;
+  node.children.forEach((child) => setPercentages(child, total));
+};
+
+/**
+ * Parses the `explain_value` of a JSON EXPLAIN. Returns undefined when the
+ * text isn't a JSON plan, e.g. for the default text format.
+ */
+export const parseQueryPlan = (text: string): QueryPlan | undefined => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+
+  // EXPLAIN returns the list of root operators.
+  if (Array.isArray(raw)) {
+    if (raw.length === 0) return undefined;
+    const roots = raw.map((node: RawPlanNode, index) =>
+      toPlanNode(node, String(index))
+    );
+    const root =
+      roots.length === 1
+        ? roots[0]
+        : { id: "root", name: "QUERY", details: {}, children: roots };
+    return { root, analyzed: false };
+  }
+
+  // EXPLAIN ANALYZE returns the query profile, whose only child is the
+  // EXPLAIN_ANALYZE operator wrapping the actual plan.
+  if (!raw || typeof raw !== "object" || !("children" in raw)) {
+    return undefined;
+  }
+  let top = raw as RawPlanNode;
+  while (
+    top.children?.length === 1 &&
+    (!top.operator_type || top.operator_type === "EXPLAIN_ANALYZE")
+  ) {
+    top = top.children[0];
+  }
+  const root = toPlanNode(top, "0");
+  const totalTiming = sumTiming(root);
+  setPercentages(root, totalTiming);
+  return { root, analyzed: true, totalTiming };
+};
+
+/**
+ * Wraps a statement to profile it and return its plan as JSON. Statements
+ * that are already an EXPLAIN are left as they are.
+ */
+export const explainAnalyzeStatement = (statement: string): string =>
+  getStatementKeyword(statement) === "EXPLAIN"
+    ? statement
+    : `EXPLAIN (ANALYZE, FORMAT JSON) ${statement}`;
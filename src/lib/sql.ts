@@ -0,0 +1,195 @@
+// SQL text helpers shared by the store and the editor.
+
+/**
+ * Returns the end of the comment, string literal, quoted identifier or
+ * dollar-quoted string starting at `i`, or -1 when `i` starts regular code.
+ */
+const skipLiteral = (sql: string, i: number): number => {
+  const char = sql[i];
+  const next = sql[i + 1];
+
+  // Line comment
+  if (char === "-" && next === "-") {
+    const end = sql.indexOf("\n", i);
+    return end === -1 ? sql.length : end;
+  }
+
+  // Block comment
+  if (char === "/" && next === "*") {
+    const end = sql.indexOf("*/", i + 2);
+    return end === -1 ? sql.length : end + 2;
+  }
+
+  // String literal or quoted identifier, with doubled quotes as escapes
+  if (char === "'" || char === '"') {
+    let j = i + 1;
+    while (j < sql.length) {
+      if (sql[j] === char) {
+        if (sql[j + 1] === char) {
+          j += 2;
+          continue;
+        }
+        break;
+      }
+      j++;
+    }
+    return Math.min(j + 1, sql.length);
+  }
+
+  // Dollar-quoted string ($$...$$ or $tag$...$tag$)
+  if (char === "$") {
+    const tag = /^\$[A-Za-z_]*\$/.exec(sql.slice(i));
+    if (tag) {
+      const end = sql.indexOf(tag[0], i + tag[0].length);
+      return end === -1 ? sql.length : end + tag[0].length;
+    }
+  }
+
+  return -1;
+};
+
+const isComment = (sql: string, i: number) =>
+  sql.startsWith("--", i) || sql.startsWith("/*", i);
+
+/**
+ * Splits a script into statements on top-level semicolons. Semicolons inside
+ * string literals, quoted identifiers, dollar-quoted strings and comments are
+ * ignored. Empty statements (and comment-only ones) are dropped.
+ */
+export const splitSqlStatements = (sql: string): string[] => {
+  const statements: string[] = [];
+  let current = "";
+  let hasCode = false;
+  let i = 0;
+
+  const pushStatement = () => {
+    if (hasCode) statements.push(current.trim());
+    current = "";
+    hasCode = false;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+
+    const stop = skipLiteral(sql, i);
+    if (stop !== -1) {
+      current += sql.slice(i, stop);
+      if (!isComment(sql, i)) hasCode = true;
+      i = stop;
+      continue;
+    }
+
+    if (char === ";") {
+      pushStatement();
+      i++;
+      continue;
+    }
+
+    if (!/\s/.test(char)) hasCode = true;
+    current += char;
+    i++;
+  }
+  pushStatement();
+
+  return statements;
+};
+
+// `{{name}}` placeholders, and `:name` ones that aren't part of a `::` cast,
+// a `:=` named argument, a slice like `list[1:n]` or a struct key.
+const TEMPLATE_PARAMETER = /^\{\{\s*([A-Za-z_]\w*)\s*\}\}/;
+const COLON_PARAMETER = /^:([A-Za-z_]\w*)/;
+const NOT_BEFORE_COLON_PARAMETER = /[\w:)[\]'"]/;
+
+/**
+ * Replaces the `:name` and `{{name}}` placeholders outside literals and
+ * comments with the text returned for each of them.
+ */
+export const replaceQueryParameters = (
+  sql: string,
+  replace: (name: string) => string
+): string => {
+  let output = "";
+  let i = 0;
+
+  while (i < sql.length) {
+    const stop = skipLiteral(sql, i);
+    if (stop !== -1) {
+      output += sql.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    const rest = sql.slice(i, i + 256);
+    const match =
+      TEMPLATE_PARAMETER.exec(rest) ??
+      (i === 0 || !NOT_BEFORE_COLON_PARAMETER.test(sql[i - 1])
+        ? COLON_PARAMETER.exec(rest)
+        : null);
+    if (match) {
+      output += replace(match[1]);
+      i += match[0].length;
+      continue;
+    }
+
+    output += sql[i];
+    i++;
+  }
+
+  return output;
+};
+
+/**
+ * Returns the names of the placeholders in a query, in order of appearance.
+ */
+export const findQueryParameters = (sql: string): string[] => {
+  const names = new Set<string>();
+  replaceQueryParameters(sql, (name) => {
+    names.add(name);
+    return "";
+  });
+  return Array.from(names);
+};
+
+/**
+ * Returns the leading keyword of a statement in upper case, skipping
+ * comments and whitespace.
+ */
+export const getStatementKeyword = (statement: string): string => {
+  const code = statement.replace(/^(\s+|--[^\n]*(\n|$)|\/\*[\s\S]*?\*\/)*/, "");
+  return (/^[A-Za-z]+/.exec(code)?.[0] ?? "").toUpperCase();
+};
+
+/**
+ * Returns true when the statement changes the catalog, so the schema
+ * explorer needs a refresh.
+ */
+export const isSchemaChangingStatement = (statement: string): boolean =>
+  ["CREATE", "ALTER", "DROP", "ATTACH", "DETACH"].includes(
+    getStatementKeyword(statement)
+  );
+
+/**
+ * Quotes an identifier, escaping embedded double quotes.
+ */
+export const quoteIdentifier = (name: string): string =>
+  `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Quotes a string literal, escaping embedded single quotes.
+ */
+export const quoteLiteral = (value: string): string =>
+  `'${value.replace(/'/g, "''")}'`;
+
+/**
+ * Returns the fully qualified, quoted name of a table. The schema is omitted
+ * when unknown, which resolves to the database's default schema.
+ */
+export const qualifyTableName = (
+  database: string,
+  table: string,
+  schema?: string
+): string =>
+  [database, schema, table]
+    .filter((part): part is string => !!part)
+    .map(quoteIdentifier)
+    .join(".");
@@ -0,0 +1,125 @@
+// Encryption of connection credentials with a key derived from a user
+// passphrase, using WebCrypto (PBKDF2 + AES-GCM).
+
+import type { ConnectionProvider } from "@/store";
+
+// A JSON value encrypted with the vault key, base64 encoded.
+export interface EncryptedVault {
+  salt: string;
+  iv: string;
+  data: string;
+}
+
+// The credential fields of a connection that only live in the vault.
+const SECRET_FIELDS = ["password", "apiKey", "bearerToken"] as const;
+
+export type ConnectionSecrets = Pick<
+  ConnectionProvider,
+  (typeof SECRET_FIELDS)[number]
+>;
+
+const PBKDF2_ITERATIONS = 310_000;
+
+const toBase64 = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+/**
+ * Derives the AES key of a vault from its passphrase and salt. The key can't
+ * be exported, so it only ever exists in memory.
+ */
+export const deriveVaultKey = async (
+  passphrase: string,
+  salt: string
+): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      salt: fromBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      hash: "SHA-256",
+    },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export const createVaultSalt = (): string =>
+  toBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+/**
+ * Encrypts a JSON value, with a fresh IV on every call.
+ */
+export const encryptVault = async (
+  key: CryptoKey,
+  salt: string,
+  value: unknown
+): Promise<EncryptedVault> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  );
+  return { salt, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+/**
+ * Decrypts a vault. AES-GCM authenticates the data, so a wrong passphrase
+ * fails here rather than returning garbage.
+ */
+export const decryptVault = async <T>(
+  key: CryptoKey,
+  vault: EncryptedVault
+): Promise<T> => {
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(vault.iv) },
+      key,
+      fromBase64(vault.data)
+    );
+    return JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new Error("Incorrect passphrase");
+  }
+};
+
+/**
+ * Returns a copy of the connection without its credentials.
+ */
+export const stripSecrets = <T extends ConnectionProvider>(
+  connection: T
+): T => {
+  const stripped = { ...connection };
+  SECRET_FIELDS.forEach((field) => delete stripped[field]);
+  return stripped;
+};
+
+/**
+ * Collects the credentials of the connections, by connection id.
+ */
+export const collectSecrets = (
+  connections: ConnectionProvider[]
+): Record<string, ConnectionSecrets> =>
+  Object.fromEntries(
+    connections.map((connection) => [
+      connection.id,
+      Object.fromEntries(
+        SECRET_FIELDS.filter((field) => connection[field]).map((field) => [
+          field,
+          connection[field],
+        ])
+      ),
+    ])
+  );
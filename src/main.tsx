@@ -67,13 +67,30 @@ const App = () => {
     }
 
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      const { isPersistent, checkpoint } = useDuckStore.getState();
+      if (isPersistent) {
+        checkpoint().catch(console.error);
+        return;
+      }
       e.preventDefault();
       return (e.returnValue =
         "Duck-UI runs on WASM and does not persist data. Reloading will make you lose all unsaved data.");
     };
 
+    // Flush the OPFS database when the page is hidden, as unload handlers
+    // may not get the chance to finish.
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        useDuckStore.getState().checkpoint().catch(console.error);
+      }
+    };
+
     window.addEventListener("beforeunload", handleBeforeUnload);
-    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
   }, []);
 
   return (
@@ -39,6 +39,7 @@ import {
 import { DialogFooter } from "@/components/ui/dialog"; // Import DialogFooter
 import { ConnectionDisclaimer } from "@/components/connection/Disclaimer";
 import ConnectionManager from "@/components/connection/ConnectionsModal";
+import LocalDatabaseCard from "@/components/connection/LocalDatabaseCard";
 import {
   Tooltip,
   TooltipContent,
@@ -59,6 +60,7 @@ const connectionSchema = z.object({
       message: "Connection name must not exceed 30 characters.",
     }),
   scope: z.enum(["External"]),
+  driver: z.enum(["duckdb_http", "clickhouse_http", "json_api"]).optional(),
   host: z.string().url({
     message: "Host must be a valid URL.",
   }),
@@ -72,8 +74,10 @@ const connectionSchema = z.object({
   database: z.string().optional(),
   user: z.string().optional(),
   password: z.string().optional(),
-  authMode: z.enum(["none", "password", "api_key"]).optional(),
+  authMode: z.enum(["none", "password", "api_key", "bearer"]).optional(),
   apiKey: z.string().optional(),
+  apiKeyHeader: z.string().optional(),
+  bearerToken: z.string().optional(),
 });
 
 type ConnectionFormValues = z.infer<typeof connectionSchema>;
@@ -125,7 +129,7 @@ const Connections = () => {
       port: values.port ? parseInt(values.port, 10) : undefined,
       environment: "APP",
     };
-    updateConnection(connectionData);
+    await updateConnection(connectionData);
     setEditingConnectionId(null);
     setIsEditing(false);
   };
@@ -336,8 +340,8 @@ const Connections = () => {
                               <AlertDialogFooter>
                                 <AlertDialogCancel>Cancel</AlertDialogCancel>
                                 <AlertDialogAction
-                                  onClick={() => {
-                                    deleteConnection(connection.id);
+                                  onClick={async () => {
+                                    await deleteConnection(connection.id);
                                     setDeleteConfirmationId(null);
                                   }}
                                   className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
@@ -357,6 +361,8 @@ const Connections = () => {
           </ScrollArea>
         </CardContent>
       </Card>
+
+      <LocalDatabaseCard />
     </div>
   );
 };
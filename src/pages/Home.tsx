@@ -1,4 +1,5 @@
 import DataExplorer from "@/components/explorer/DataExplorer";
+import SavedQueries from "@/components/explorer/SavedQueries";
 import {
   ResizableHandle,
   ResizablePanel,
@@ -10,8 +11,20 @@ export default function Home() {
   return (
     <div className="h-screen w-full overflow-auto">
       <ResizablePanelGroup direction="horizontal">
-        <ResizablePanel className="overflow-scroll" defaultSize={25}>
-          <DataExplorer />
+        <ResizablePanel defaultSize={25}>
+          <ResizablePanelGroup direction="vertical">
+            <ResizablePanel className="overflow-scroll" defaultSize={65}>
+              <DataExplorer />
+            </ResizablePanel>
+            <ResizableHandle withHandle />
+            <ResizablePanel
+              className="overflow-scroll"
+              defaultSize={35}
+              minSize={15}
+            >
+              <SavedQueries />
+            </ResizablePanel>
+          </ResizablePanelGroup>
         </ResizablePanel>
         <ResizableHandle withHandle />
         <ResizablePanel
@@ -1,7 +1,64 @@
 import { create } from "zustand";
 import { devtools, persist } from "zustand/middleware";
 import * as duckdb from "@duckdb/duckdb-wasm";
+import { AsyncRecordBatchStreamReader, RecordBatch, Table } from "apache-arrow";
 import { toast } from "sonner";
+import {
+  findQueryParameters,
+  getStatementKeyword,
+  isSchemaChangingStatement,
+  qualifyTableName,
+  quoteIdentifier,
+  quoteLiteral,
+  splitSqlStatements,
+} from "@/lib/sql";
+import {
+  inlineQueryParameters,
+  prepareQueryParameters,
+} from "@/lib/queryParameters";
+import { arrowByteSize, arrowToResult, arrowToRows } from "@/lib/arrow";
+import { parseQueryPlan, type QueryPlan } from "@/lib/queryPlan";
+import { formatDuration } from "@/lib/utils";
+import {
+  buildColumnTypesOption,
+  buildImportProjection,
+  buildReadExpression,
+  canQueryInPlace,
+  checkSchemaCompatibility,
+  detectImportFormat,
+  EXCEL_RANGE_PATTERN,
+  findTable,
+  getCompression,
+  hasHivePartitions,
+  isDefaultImport,
+  parseImportUrls,
+  pickFolderFormat,
+  type FolderFile,
+  type ImportColumn,
+  type ImportFormat,
+  type ImportMode,
+} from "@/lib/fileImport";
+import {
+  CONNECTION_DRIVERS,
+  DEFAULT_CONNECTION_DRIVER,
+  getConnectionDriver,
+  getExplainStatement,
+} from "@/lib/connectionDrivers";
+import {
+  collectSecrets,
+  createVaultSalt,
+  decryptVault,
+  deriveVaultKey,
+  encryptVault,
+  stripSecrets,
+  type ConnectionSecrets,
+  type EncryptedVault,
+} from "@/lib/vault";
+import {
+  clearHistoryItems,
+  getHistoryItems,
+  putHistoryItems,
+} from "@/lib/queryHistory";
 
 // Import WASM bundles
 import duckdb_wasm from "@duckdb/duckdb-wasm/dist/duckdb-mvp.wasm?url";
@@ -20,6 +77,37 @@ const MANUAL_BUNDLES: duckdb.DuckDBBundles = {
   },
 };
 
+// OPFS-backed database file. The catalog name DuckDB derives from it is the
+// file name without extension.
+const OPFS_DATABASE_FILE = "duckui.db";
+const OPFS_DATABASE_NAME = "duckui";
+const CHECKPOINT_INTERVAL_MS = 30_000;
+// Authentication modes of external connections.
+const AUTH_MODES: ConnectionAuthMode[] = [
+  "none",
+  "password",
+  "api_key",
+  "bearer",
+];
+// Rows materialized when a WASM query runs, and on each load more request.
+const RESULT_PAGE_ROWS = 2_000;
+// Health checks of the current external connection: how often they run while
+// the server answers, and the growing retry delays while it doesn't.
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+const RECONNECT_DELAYS_MS = [2_000, 5_000, 10_000, 30_000];
+// Latency above which a connection is shown as degraded.
+const DEGRADED_LATENCY_MS = 1_000;
+// Consecutive failed checks before a connection is shown as offline.
+const OFFLINE_AFTER_FAILURES = 2;
+// Rows shown when previewing a file before importing it.
+const IMPORT_PREVIEW_ROWS = 10;
+// Virtual directory the files of imported folders are registered under.
+const FOLDER_IMPORT_PREFIX = "folders";
+// Local files are registered for the session only, so a view over them saved
+// in a persistent database would fail to read them after a reload.
+const PERSISTENT_VIEW_ERROR =
+  "Local files can't be queried in place in a database saved in the browser. Import them into a table instead.";
+
 //
 // TYPES
 //
@@ -33,11 +121,20 @@ declare global {
       DUCK_UI_EXTERNAL_USER: string;
       DUCK_UI_EXTERNAL_PASS: string;
       DUCK_UI_EXTERNAL_DATABASE_NAME: string;
+      DUCK_UI_EXTERNAL_AUTH_MODE?: string;
+      DUCK_UI_EXTERNAL_API_KEY?: string;
+      DUCK_UI_EXTERNAL_API_KEY_HEADER?: string;
+      DUCK_UI_EXTERNAL_TOKEN?: string;
+      DUCK_UI_EXTERNAL_DRIVER?: string;
       DUCK_UI_ALLOW_UNSIGNED_EXTENSIONS: boolean;
     };
   }
 }
 
+export type ConnectionAuthMode = "none" | "password" | "api_key" | "bearer";
+
+export type ConnectionDriverId = "duckdb_http" | "clickhouse_http" | "json_api";
+
 export interface CurrentConnection {
   environment: "APP" | "ENV" | "BUILT_IN";
   id: string;
@@ -48,7 +145,11 @@ export interface CurrentConnection {
   user?: string;
   password?: string;
   database?: string;
-  authMode?: "none" | "password" | "api_key";
+  authMode?: ConnectionAuthMode;
+  apiKey?: string;
+  apiKeyHeader?: string;
+  bearerToken?: string;
+  driver?: ConnectionDriverId;
 }
 
 export interface ConnectionProvider {
@@ -61,13 +162,32 @@ export interface ConnectionProvider {
   user?: string;
   password?: string;
   database?: string;
-  authMode?: "none" | "password" | "api_key";
+  authMode?: ConnectionAuthMode;
+  apiKey?: string;
+  apiKeyHeader?: string;
+  bearerToken?: string;
+  driver?: ConnectionDriverId;
 }
 
 export interface ConnectionList {
   connections: ConnectionProvider[];
 }
 
+export type ConnectionHealthStatus =
+  "checking" | "online" | "degraded" | "offline";
+
+export interface ConnectionHealth {
+  connectionId: string;
+  status: ConnectionHealthStatus;
+  // Round trip of the last successful check, in ms.
+  latency?: number;
+  lastSuccessAt?: number;
+  lastCheckedAt?: number;
+  // Consecutive failed checks, and the error of the last one.
+  failures: number;
+  error?: string;
+}
+
 export interface ColumnInfo {
   name: string;
   type: string;
@@ -93,6 +213,23 @@ export interface QueryResult {
   data: Record<string, unknown>[];
   rowCount: number;
   error?: string;
+  cancelled?: boolean;
+  // Set when only the first rows were loaded and the stream has more.
+  hasMore?: boolean;
+  totalRows?: number;
+  // Set when more rows exist but can't be loaded anymore: the stream of a
+  // statement ends when the next statement of the script runs.
+  truncated?: boolean;
+  // Set when the result belongs to one statement of a script.
+  statement?: string;
+  // Execution statistics: wall-clock time and time until the first rows
+  // arrived (both in ms), and the size of the loaded result in bytes.
+  duration?: number;
+  timeToFirstRow?: number;
+  byteSize?: number;
+  affectedRows?: number;
+  // Set for JSON EXPLAIN statements, to show the plan as a graph.
+  plan?: QueryPlan;
 }
 
 export interface QueryHistoryItem {
@@ -100,16 +237,129 @@ export interface QueryHistoryItem {
   query: string;
   timestamp: Date;
   error?: string;
+  connectionId?: string;
+  connectionName?: string;
+  tabId?: string;
+  tabTitle?: string;
+  duration?: number;
+  timeToFirstRow?: number;
+  rowCount?: number;
+  columnCount?: number;
+  byteSize?: number;
+  favorite?: boolean;
+}
+
+export interface SavedQuery {
+  id: string;
+  name: string;
+  query: string;
+  description?: string;
+  tags: string[];
+  folder?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
+export type SavedQueryInput = Pick<
+  SavedQuery,
+  "name" | "query" | "description" | "tags" | "folder"
+>;
+
 export type EditorTabType = "sql" | "home";
 
+export type QueryParameterType = "text" | "number" | "date" | "boolean";
+
+export interface QueryParameterValue {
+  type: QueryParameterType;
+  value: string;
+}
+
 export interface EditorTab {
   id: string;
   title: string;
   type: EditorTabType;
   content: string | { database?: string; table?: string };
   result?: QueryResult | null;
+  results?: QueryResult[];
+  // Set by each run, so paging its results isn't taken for a new run.
+  runId?: string;
+  // Set when the tab was opened from (or saved as) a saved query.
+  savedQueryId?: string;
+  // Values of the query's `:name` / `{{name}}` placeholders, by name.
+  parameters?: Record<string, QueryParameterValue>;
+}
+
+export type WasmStorageMode = "memory" | "opfs";
+
+export interface ImportProgress {
+  stage: string;
+  loaded: number;
+  total: number;
+}
+
+export interface FileImportOptions {
+  csv?: {
+    header?: boolean;
+    autoDetect?: boolean;
+    allVarchar?: boolean;
+    ignoreErrors?: boolean;
+    nullPadding?: boolean;
+    delimiter?: string;
+    // Dialect options, sniffed from the file when left empty.
+    quote?: string;
+    escape?: string;
+    skip?: number;
+    comment?: string;
+    dateFormat?: string;
+    timestampFormat?: string;
+    decimalSeparator?: string;
+    nullString?: string;
+    encoding?: string;
+    // Rows sniffed for the dialect and types; -1 reads the whole file.
+    sampleSize?: number;
+    // Keeps the rows skipped by ignoreErrors in a <table>_rejects table.
+    storeRejects?: boolean;
+  };
+  excel?: {
+    // Defaults to the first sheet.
+    sheet?: string;
+    // Cells to read, e.g. A1:F100; by default the sheet's used range.
+    range?: string;
+    header?: boolean;
+    allVarchar?: boolean;
+  };
+  // Renamed, retyped or excluded columns, from the import preview.
+  columns?: ImportColumn[];
+  // Defaults to create, which fails rather than overwrite a table.
+  mode?: ImportMode;
+  // Columns identifying a row when upserting.
+  keyColumns?: string[];
+}
+
+// Rows written by an import.
+export interface ImportResult {
+  inserted: number;
+  updated: number;
+  // Rows that couldn't be parsed, when kept in a rejects table.
+  rejected?: { count: number; table: string };
+}
+
+// What a file would import as: the schema sniffed from the file and its
+// first rows with the column overrides applied.
+export interface ImportPreview {
+  schema: { name: string; type: string }[];
+  result: QueryResult;
+}
+
+export interface MultiFileImportOptions {
+  // Detected from the URL when not given.
+  format?: ImportFormat;
+  // A view reads the files on every query; the other modes copy their rows.
+  mode: ImportMode;
+  // Columns identifying a row when upserting.
+  keyColumns?: string[];
+  onProgress?: (progress: ImportProgress) => void;
+  signal?: AbortSignal;
 }
 
 export interface DuckStoreState {
@@ -118,6 +368,9 @@ export interface DuckStoreState {
   connection: duckdb.AsyncDuckDBConnection | null;
   isInitialized: boolean;
   currentDatabase: string;
+  storageMode: WasmStorageMode;
+  isPersistent: boolean;
+  lastCheckpoint: Date | null;
   currentConnection: CurrentConnection | null;
   connectionList: ConnectionList;
 
@@ -127,6 +380,22 @@ export interface DuckStoreState {
   // Query management
   queryHistory: QueryHistoryItem[];
   isExecuting: boolean;
+  executingTabs: Record<string, boolean>;
+  stopOnError: boolean;
+
+  // Connections owned by SQL tabs, so each tab runs its queries in isolation.
+  tabConnections: Record<string, duckdb.AsyncDuckDBConnection>;
+
+  // Saved queries library
+  savedQueries: SavedQuery[];
+
+  // Health of the current external connection, checked in the background.
+  connectionHealth: ConnectionHealth | null;
+
+  // Credentials vault. While it is set, connection credentials are only
+  // persisted encrypted, and stay out of memory until it is unlocked.
+  vault: EncryptedVault | null;
+  isVaultUnlocked: boolean;
 
   // Tab Management
   tabs: EditorTab[];
@@ -144,14 +413,39 @@ export interface DuckStoreState {
   // Actions
   initialize: () => Promise<void>;
   executeQuery: (query: string, tabId?: string) => Promise<QueryResult | void>;
+  explainQuery: (query: string, tabId: string) => Promise<void>;
+  cancelQuery: (tabId?: string) => void;
+  countResultRows: (tabId: string) => Promise<void>;
+  cancelCount: (tabId: string) => void;
+  loadMoreRows: (tabId: string) => Promise<void>;
+  setStopOnError: (stopOnError: boolean) => void;
+  getTabConnection: (tabId: string) => Promise<duckdb.AsyncDuckDBConnection>;
+  releaseTabConnections: (tabIds?: string[]) => Promise<void>;
   importFile: (
     fileName: string,
-    fileContent: ArrayBuffer,
+    fileContent: File | ArrayBuffer,
     tableName: string,
     fileType: string,
     database?: string,
-    options?: Record<string, any>
-  ) => Promise<void>;
+    options?: FileImportOptions
+  ) => Promise<ImportResult | undefined>;
+  previewImportFile: (
+    fileName: string,
+    fileContent: File | ArrayBuffer,
+    fileType: string,
+    options?: FileImportOptions
+  ) => Promise<ImportPreview>;
+  importFromUrl: (
+    urls: string,
+    tableName: string,
+    options: MultiFileImportOptions
+  ) => Promise<ImportResult | undefined>;
+  importFolder: (
+    folderName: string,
+    files: FolderFile[],
+    tableName: string,
+    options: MultiFileImportOptions
+  ) => Promise<ImportResult | undefined>;
   createTab: (
     type?: EditorTabType,
     title?: string,
@@ -161,20 +455,44 @@ export interface DuckStoreState {
   setActiveTab: (tabId: string) => void;
   updateTabQuery: (tabId: string, query: string) => void;
   updateTabTitle: (tabId: string, title: string) => void;
+  setTabParameter: (
+    tabId: string,
+    name: string,
+    parameter: QueryParameterValue
+  ) => void;
   moveTab: (oldIndex: number, newIndex: number) => void;
   closeAllTabs: () => void;
   deleteTable: (tableName: string, database?: string) => Promise<void>;
   clearHistory: () => void;
+  loadQueryHistory: () => Promise<void>;
+  toggleHistoryFavorite: (id: string) => void;
+  saveQuery: (input: SavedQueryInput, tabId?: string) => SavedQuery;
+  updateSavedQuery: (id: string, changes: Partial<SavedQueryInput>) => void;
+  deleteSavedQuery: (id: string) => void;
+  openSavedQuery: (id: string) => void;
   cleanup: () => Promise<void>;
   fetchDatabasesAndTablesInfo: () => Promise<void>;
   exportParquet: (query: string) => Promise<Blob>;
 
+  // Local Storage Actions
+  setStorageMode: (mode: WasmStorageMode) => Promise<void>;
+  checkpoint: () => Promise<void>;
+  resetLocalDatabase: () => Promise<void>;
+  reopenDatabase: (wipe?: boolean) => Promise<void>;
+
   // Connection Management Actions
   addConnection: (connection: ConnectionProvider) => Promise<void>;
-  updateConnection: (connection: ConnectionProvider) => void;
-  deleteConnection: (id: string) => void;
+  updateConnection: (connection: ConnectionProvider) => Promise<void>;
+  deleteConnection: (id: string) => Promise<void>;
   setCurrentConnection: (connectionId: string) => Promise<void>;
   getConnection: (connectionId: string) => ConnectionProvider | undefined;
+  checkConnectionHealth: () => Promise<void>;
+
+  // Credentials Vault Actions
+  enableVault: (passphrase: string) => Promise<void>;
+  unlockVault: (passphrase: string) => Promise<void>;
+  lockVault: () => Promise<void>;
+  disableVault: () => void;
 }
 
 //
@@ -191,122 +509,238 @@ const validateConnection = (
   return connection;
 };
 
-// Converts a raw result (from an external HTTP endpoint) into a QueryResult.
-const rawResultToJSON = (rawResult: any): QueryResult => {
+/**
+ * Reads batches from a result stream until at least `rowLimit` rows have been
+ * read or the stream ends.
+ */
+const readBatches = async (
+  reader: AsyncRecordBatchStreamReader,
+  rowLimit: number,
+  signal?: AbortSignal
+): Promise<{
+  batches: RecordBatch[];
+  done: boolean;
+  firstBatchAt?: number;
+}> => {
+  const batches: RecordBatch[] = [];
+  let rows = 0;
+  let firstBatchAt: number | undefined;
+  while (rows < rowLimit) {
+    if (signal?.aborted) break;
+    const next = await reader.next();
+    if (next.done) return { batches, done: true, firstBatchAt };
+    firstBatchAt ??= performance.now();
+    batches.push(next.value);
+    rows += next.value.numRows;
+  }
+  return { batches, done: false, firstBatchAt };
+};
+
+/**
+ * Runs a query on a WASM connection as a stream of Arrow batches, so it can be
+ * cancelled while running. Only the first `rowLimit` rows are materialized;
+ * when the stream has more, its reader is returned to fetch them later, along
+ * with the time its first batch took to arrive (in ms).
+ * Queries with `params` run as prepared statements, which DuckDB can't
+ * interrupt: cancelling those only discards their result.
+ */
+const executeWasmQuery = async (
+  connection: duckdb.AsyncDuckDBConnection,
+  query: string,
+  signal: AbortSignal,
+  rowLimit = Infinity,
+  params?: unknown[]
+): Promise<{
+  table: Table;
+  reader: AsyncRecordBatchStreamReader;
+  done: boolean;
+  timeToFirstRow?: number;
+}> => {
+  const startedAt = performance.now();
+  const onAbort = () => {
+    connection.cancelSent().catch(console.error);
+  };
+  signal.addEventListener("abort", onAbort);
   try {
-    const parsed = JSON.parse(rawResult);
-    if (
-      !parsed.meta ||
-      !parsed.data ||
-      !Array.isArray(parsed.meta) ||
-      !Array.isArray(parsed.data)
-    ) {
-      throw new Error(
-        "Invalid raw result format: meta or data are missing or have the wrong format"
-      );
-    }
-    const columns = parsed.meta.map((m: any) => m.name);
-    const columnTypes = parsed.meta.map((m: any) => m.type);
-    const data = parsed.data.map((row: any) => {
-      const rowObject: Record<string, any> = {};
-      columns.forEach((col: any, index: number) => {
-        rowObject[col] = row[index];
-      });
-      return rowObject;
-    });
+    const reader = params
+      ? await sendPrepared(connection, query, params)
+      : await connection.send(query, true);
+    const { batches, done, firstBatchAt } = await readBatches(
+      reader,
+      rowLimit,
+      signal
+    );
     return {
-      columns,
-      columnTypes,
-      data,
-      rowCount: parsed.rows || data.length,
+      table: new Table(reader.schema, batches),
+      reader,
+      done,
+      timeToFirstRow:
+        firstBatchAt !== undefined ? firstBatchAt - startedAt : undefined,
     };
-  } catch (error) {
-    console.error("Failed to parse raw result:", error);
-    throw new Error(
-      `Failed to parse raw result: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
-    );
+  } finally {
+    signal.removeEventListener("abort", onAbort);
   }
 };
 
-// Converts a WASM query result into a QueryResult.
-const resultToJSON = (result: any): QueryResult => {
-  const data = result.toArray().map((row: any) => {
-    const jsonRow = row.toJSON();
-    result.schema.fields.forEach((field: any) => {
-      const col = field.name;
-      const type = field.type.toString();
-      try {
-        let value = jsonRow[col];
-        if (value === null || value === undefined) return;
-        if (type === "Date32<DAY>") {
-          value = new Date(value).toLocaleDateString();
-          jsonRow[col] = value;
-        }
-        if (
-          type === "Date64<MILLISECOND>" ||
-          type === "Timestamp<MICROSECOND>"
-        ) {
-          value = new Date(value);
-          jsonRow[col] = value;
-        }
-      } catch (error) {
-        console.error(`Error processing column ${col}:`, error);
-      }
-    });
-    return jsonRow;
-  });
-  return {
-    columns: result.schema.fields.map((field: any) => field.name),
-    columnTypes: result.schema.fields.map((field: any) =>
-      field.type.toString()
-    ),
-    data,
-    rowCount: result.numRows,
-  };
+// The stream of a prepared statement outlives the statement itself.
+const sendPrepared = async (
+  connection: duckdb.AsyncDuckDBConnection,
+  query: string,
+  params: unknown[]
+): Promise<AsyncRecordBatchStreamReader> => {
+  const prepared = await connection.prepare(query);
+  try {
+    return await prepared.send(...params);
+  } finally {
+    await prepared.close();
+  }
 };
 
+// JSON EXPLAIN statements return their plan as a single "explain_value" cell.
+const getQueryPlan = (
+  statement: string,
+  result: QueryResult
+): QueryPlan | undefined => {
+  if (getStatementKeyword(statement) !== "EXPLAIN" || result.rowCount !== 1) {
+    return undefined;
+  }
+  const value = result.data[0]?.explain_value;
+  return typeof value === "string" ? parseQueryPlan(value) : undefined;
+};
+
+// DuckDB reports the rows touched by DML statements as a single "Count" column.
+const getAffectedRows = (
+  statement: string,
+  result: QueryResult
+): number | undefined => {
+  if (
+    !["INSERT", "UPDATE", "DELETE"].includes(getStatementKeyword(statement))
+  ) {
+    return undefined;
+  }
+  if (result.columns.length !== 1 || result.columns[0] !== "Count") {
+    return undefined;
+  }
+  return Number(result.data[0]?.Count ?? 0);
+};
+
+// Abort controllers of the queries currently running, keyed by tab id.
+const runningQueries = new Map<string, AbortController>();
+
+// Server-side ids of the external queries in flight, by tab, so cancelling
+// can stop them on the server too.
+const runningExternalQueries = new Map<
+  string,
+  { queryId: string; connection: CurrentConnection }
+>();
+
 /**
- * Executes a query against an external connection.
- * @param query The query string.
- * @param connection The external connection details.
+ * Cancels the query running under a key: aborts it locally and, for external
+ * connections, asks the driver to stop it on the server.
  */
+const abortRunningQuery = (key: string) => {
+  runningQueries.get(key)?.abort();
+  const external = runningExternalQueries.get(key);
+  if (external) {
+    runningExternalQueries.delete(key);
+    getConnectionDriver(external.connection)
+      .cancel(external.queryId, external.connection)
+      .catch((error) => console.error("Failed to cancel query:", error));
+  }
+};
 
-const executeExternalQuery = async (
-  query: string,
-  connection: CurrentConnection
-): Promise<QueryResult> => {
-  if (!connection.host || !connection.port) {
-    throw new Error("Host and port must be defined for external connections.");
+// Open result streams of the last query run in each tab, keyed by tab id.
+const resultStreams = new Map<string, AsyncRecordBatchStreamReader>();
+
+// Bound statement of each tab's partially loaded result, so its rows can be
+// counted on demand.
+const countableStatements = new Map<
+  string,
+  { statement: string; sql: string; values: unknown[] }
+>();
+
+// Abort controllers of the row counts running, keyed by tab id.
+const runningCounts = new Map<string, AbortController>();
+
+/**
+ * Counts the rows a read-only statement returns, so a partially loaded
+ * result can show its total. This runs the statement again, so it's only
+ * done when asked for. Resolves to undefined when the statement can't be
+ * counted or the count is cancelled.
+ */
+const countStatementRows = async (
+  connection: duckdb.AsyncDuckDBConnection,
+  statement: string,
+  params: unknown[],
+  signal: AbortSignal
+): Promise<number | undefined> => {
+  if (
+    !["SELECT", "WITH", "FROM", "VALUES"].includes(
+      getStatementKeyword(statement)
+    )
+  ) {
+    return undefined;
   }
-  const url = `${connection.host}:${connection.port}/`;
-  const authHeader = btoa(`${connection.user}:${connection.password}`);
-  const body = query;
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-      Authorization: `Basic ${authHeader}`,
-    },
-    body,
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `HTTP error! Status: ${response.status}, Message: ${errorText}`
+  try {
+    const { table } = await executeWasmQuery(
+      connection,
+      `SELECT count(*) AS total FROM (${statement})`,
+      signal,
+      Infinity,
+      params.length > 0 ? params : undefined
     );
+    return signal.aborted ? undefined : Number(table.getChildAt(0)?.get(0));
+  } catch (error) {
+    if (signal.aborted) return undefined;
+    throw error;
   }
-  const rawResult = await response.text();
-  return rawResultToJSON(rawResult);
 };
 
+// Replaces a tab's result, keeping its statement results in sync.
+const replaceTabResult = (tab: EditorTab, result: QueryResult): EditorTab => ({
+  ...tab,
+  result,
+  results: tab.results?.map((statementResult) =>
+    statementResult === tab.result ? result : statementResult
+  ),
+});
+
+// Stops counting the rows of a tab's result and forgets its statement.
+const dropResultCount = (tabId: string) => {
+  runningCounts.get(tabId)?.abort();
+  countableStatements.delete(tabId);
+};
+
+// Drops the open result stream of a tab, if any.
+const closeResultStream = (tabId: string) => {
+  const reader = resultStreams.get(tabId);
+  if (!reader) return;
+  resultStreams.delete(tabId);
+  reader.cancel().catch(console.error);
+};
+
+// Returns a copy of a record without the given keys.
+const omitKeys = <T>(record: Record<string, T>, keys: string[]) =>
+  Object.fromEntries(
+    Object.entries(record).filter(([key]) => !keys.includes(key))
+  );
+
+/**
+ * Checks whether the browser exposes the Origin Private File System.
+ */
+const isOpfsSupported = (): boolean =>
+  typeof navigator !== "undefined" &&
+  typeof navigator.storage?.getDirectory === "function";
+
 /**
- * Initializes a new DuckDB WASM connection.
+ * Initializes a new DuckDB WASM connection, backed by OPFS when requested.
  */
-const initializeWasmConnection = async (): Promise<{
+const initializeWasmConnection = async (
+  storageMode: WasmStorageMode = "memory"
+): Promise<{
   db: duckdb.AsyncDuckDB;
   connection: duckdb.AsyncDuckDBConnection;
+  isPersistent: boolean;
 }> => {
   const bundle = await duckdb.selectBundle(MANUAL_BUNDLES);
   const worker = new Worker(bundle.mainWorker!);
@@ -325,7 +759,26 @@ const initializeWasmConnection = async (): Promise<{
     allowUnsignedExtensions: allowUnsignedExtensions,
   };
 
-  await db.open(dbConfig);
+  let isPersistent = false;
+  if (storageMode === "opfs" && isOpfsSupported()) {
+    try {
+      await db.open({
+        ...dbConfig,
+        path: `opfs://${OPFS_DATABASE_FILE}`,
+        accessMode: duckdb.DuckDBAccessMode.READ_WRITE,
+      });
+      isPersistent = true;
+    } catch (error) {
+      // Most likely another tab holds the OPFS file lock.
+      console.error("Failed to open OPFS database:", error);
+      toast.warning(
+        "Could not open the local database, falling back to in-memory mode."
+      );
+    }
+  }
+  if (!isPersistent) {
+    await db.open(dbConfig);
+  }
 
   const connection = await db.connect();
   // Validate immediately
@@ -336,65 +789,127 @@ const initializeWasmConnection = async (): Promise<{
     connection.query(`INSTALL excel`),
     connection.query(`LOAD excel`),
   ]);
-  return { db, connection };
+  await Promise.all([
+    connection.query(`SET enable_http_metadata_cache=true`),
+    connection.query(`INSTALL arrow`),
+    connection.query(`INSTALL parquet`),
+  ]);
+  return { db, connection, isPersistent };
 };
 
 /**
- * Tests an external connection by executing a basic query.
+ * Removes the OPFS database file and its write-ahead log.
  */
-const testExternalConnection = async (
-  connection: ConnectionProvider
-): Promise<void> => {
-  if (!connection.host || !connection.port) {
-    throw new Error("Host and port must be defined for external connections.");
+const removeOpfsDatabase = async (): Promise<void> => {
+  if (!isOpfsSupported()) return;
+  const root = await navigator.storage.getDirectory();
+  for (const name of [OPFS_DATABASE_FILE, `${OPFS_DATABASE_FILE}.wal`]) {
+    try {
+      await root.removeEntry(name);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === "NotFoundError")) {
+        throw error;
+      }
+    }
   }
-  const url = `${connection.host}:${connection.port}/`;
-  const authHeader = btoa(`${connection.user}:${connection.password}`);
-  const response = await fetch(url, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-      Authorization: `Basic ${authHeader}`,
-    },
-    body: `SELECT 1`,
-  });
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `Connection test failed! Status: ${response.status}, Message: ${errorText}`
-    );
+};
+
+// Handle of the periodic CHECKPOINT timer for OPFS-backed databases.
+let checkpointTimer: number | null = null;
+
+const stopCheckpointTimer = () => {
+  if (checkpointTimer !== null) {
+    window.clearInterval(checkpointTimer);
+    checkpointTimer = null;
   }
 };
 
+const startCheckpointTimer = (checkpoint: () => Promise<void>) => {
+  stopCheckpointTimer();
+  checkpointTimer = window.setInterval(() => {
+    checkpoint().catch((error) => console.error("Checkpoint failed:", error));
+  }, CHECKPOINT_INTERVAL_MS);
+};
+
+// Handle of the next health check of the current external connection.
+let healthCheckTimer: number | null = null;
+
+const stopHealthChecks = () => {
+  if (healthCheckTimer !== null) {
+    window.clearTimeout(healthCheckTimer);
+    healthCheckTimer = null;
+  }
+};
+
+const scheduleHealthCheck = (check: () => Promise<void>, delay: number) => {
+  stopHealthChecks();
+  healthCheckTimer = window.setTimeout(() => {
+    healthCheckTimer = null;
+    check().catch((error) => console.error("Health check failed:", error));
+  }, delay);
+};
+
+const getHealthStatus = (
+  failures: number,
+  latency = 0
+): ConnectionHealthStatus => {
+  if (failures >= OFFLINE_AFTER_FAILURES) return "offline";
+  if (failures > 0 || latency > DEGRADED_LATENCY_MS) return "degraded";
+  return "online";
+};
+
+// Guards against concurrent initialization (e.g. React StrictMode), which
+// would otherwise try to open the OPFS database file twice.
+let isInitializing = false;
+
+// Key of the unlocked credentials vault. Kept out of the store, so it is
+// never persisted.
+let vaultKey: CryptoKey | null = null;
+
+const isVaultLocked = (state: DuckStoreState): boolean =>
+  !!state.vault && !state.isVaultUnlocked;
+
 /**
- * Helper to update query history.
+ * Collects the credentials kept in the vault: those of the connections added
+ * in the app. Environment connections get theirs from the environment on
+ * every start.
  */
+const getVaultSecrets = (connections: ConnectionProvider[]) =>
+  collectSecrets(
+    connections.filter((connection) => connection.environment === "APP")
+  );
+
+/**
+ * Re-encrypts the credentials of the given connections, by default the
+ * current ones, with the key of the unlocked vault.
+ */
+const sealVault = async (
+  state: DuckStoreState,
+  connections = state.connectionList.connections
+): Promise<EncryptedVault | null> => {
+  if (!state.vault || !vaultKey) return state.vault;
+  return encryptVault(vaultKey, state.vault.salt, getVaultSecrets(connections));
+};
 
-const updateHistory = (
+/**
+ * Helper to record a query run in the history log. The item is stored in
+ * IndexedDB in the background; the returned list is the new in-memory one.
+ */
+const recordHistory = (
   currentHistory: QueryHistoryItem[],
-  query: string,
-  errorMsg?: string
+  item: Omit<QueryHistoryItem, "id" | "timestamp">
 ): QueryHistoryItem[] => {
   const newItem: QueryHistoryItem = {
     id: crypto.randomUUID(),
-    query,
     timestamp: new Date(),
-    ...(errorMsg ? { error: errorMsg } : {}),
+    ...item,
   };
-  const existingIndex = currentHistory.findIndex(
-    (item) => item.query === query
+  putHistoryItems([newItem]).catch((error) =>
+    console.error("Failed to save query history:", error)
   );
-  let newHistory =
-    existingIndex !== -1
-      ? [newItem, ...currentHistory.filter((_, idx) => idx !== existingIndex)]
-      : [newItem, ...currentHistory];
-  return newHistory.slice(0, 15);
+  return [newItem, ...currentHistory];
 };
 
-/**
- * Fetches databases and tables for an external connection. TODO
- */
-
 /**
  * Fetches databases and tables using the WASM connection.
  */
@@ -406,14 +921,28 @@ const fetchWasmDatabases = async (
     dbListResult.toArray().map(async (db: any) => {
       const dbName = db.name.toString();
       const tablesResult = await connection.query(
-        `SELECT table_name FROM information_schema.tables WHERE table_catalog = '${dbName}'`
+        `SELECT table_schema, table_name, table_type FROM information_schema.tables WHERE table_catalog = '${dbName}'`
       );
       const tables: TableInfo[] = await Promise.all(
         tablesResult.toArray().map(async (tbl: any) => {
           const tableName = tbl.table_name.toString();
-          const columnsResult = await connection.query(
-            `DESCRIBE "${dbName}"."${tableName}"`
-          );
+          const schemaName = tbl.table_schema.toString();
+          const qualifiedName = qualifyTableName(dbName, tableName, schemaName);
+          // A view whose files are gone can't be described; list it without
+          // columns rather than fail the whole schema.
+          let columnsResult: Table;
+          try {
+            columnsResult = await connection.query(`DESCRIBE ${qualifiedName}`);
+          } catch (error) {
+            console.error(`Failed to describe ${qualifiedName}:`, error);
+            return {
+              name: tableName,
+              schema: schemaName,
+              columns: [],
+              rowCount: 0,
+              createdAt: new Date().toISOString(),
+            };
+          }
           const columns: ColumnInfo[] = columnsResult
             .toArray()
             .map((col: any) => ({
@@ -421,14 +950,19 @@ const fetchWasmDatabases = async (
               type: col.column_type.toString(),
               nullable: col.null === "YES",
             }));
-          const countResult = await connection.query(
-            `SELECT COUNT(*) as count FROM "${dbName}"."${tableName}"`
-          );
-          // Assumes countResult.toArray() returns a 2D array where the first element is the count.
-          const countValue = Number(countResult.toArray()[0][0]);
+          // Counting a view runs it, which for views over remote files
+          // means downloading them again.
+          let countValue = 0;
+          if (tbl.table_type !== "VIEW") {
+            const countResult = await connection.query(
+              `SELECT COUNT(*) as count FROM ${qualifiedName}`
+            );
+            // Assumes countResult.toArray() returns a 2D array where the first element is the count.
+            countValue = Number(countResult.toArray()[0][0]);
+          }
           return {
             name: tableName,
-            schema: dbName,
+            schema: schemaName,
             columns,
             rowCount: countValue,
             createdAt: new Date().toISOString(),
@@ -440,6 +974,376 @@ const fetchWasmDatabases = async (
   );
 };
 
+/**
+ * Registers a file to import with DuckDB, replacing any file previously
+ * registered under the same name, and returns the name to read it by. Local
+ * files are registered as handles that DuckDB reads slice by slice, so
+ * they're never loaded into memory whole; compressed files are registered
+ * as they are and decompressed by DuckDB while reading. Database files are
+ * copied, since DuckDB attaches them for writing.
+ */
+const registerImportFile = async (
+  db: duckdb.AsyncDuckDB,
+  fileName: string,
+  fileContent: File | ArrayBuffer,
+  fileType: string
+): Promise<string> => {
+  try {
+    await db.dropFile(fileName);
+  } catch {
+    // The file isn't registered yet on its first import.
+  }
+  if (fileContent instanceof File && fileType !== "duckdb") {
+    await db.registerFileHandle(
+      fileName,
+      fileContent,
+      duckdb.DuckDBDataProtocol.BROWSER_FILEREADER,
+      true
+    );
+    return fileName;
+  }
+  const buffer =
+    fileContent instanceof File
+      ? new Uint8Array(await fileContent.arrayBuffer())
+      : new Uint8Array(fileContent);
+  await db.registerFileBuffer(fileName, buffer);
+  return fileName;
+};
+
+/**
+ * Builds the query reading a registered file with its format options. Column
+ * overrides go to the reader where it supports them, so CSV values are
+ * parsed as the chosen type rather than cast after the fact.
+ */
+const buildFileImportQuery = (
+  fileName: string,
+  fileType: string,
+  options: FileImportOptions,
+  columns?: ImportColumn[],
+  storeRejects = false
+): string => {
+  const file = quoteLiteral(fileName);
+  const format = fileType.toLowerCase();
+  const compression = getCompression(fileName);
+  const changedTypes = (columns ?? []).filter(
+    (column) => column.include && column.type !== column.sourceType
+  );
+  const projection = columns
+    ? buildImportProjection(columns, {
+        castTypes: format !== "csv" && format !== "json",
+      })
+    : "*";
+
+  if (format === "csv") {
+    // Use provided options or defaults
+    const csvOptions = options.csv || {};
+    const readerOptions = [
+      `header=${csvOptions.header ?? true}`,
+      `auto_detect=${csvOptions.autoDetect ?? true}`,
+      `all_varchar=${csvOptions.allVarchar ?? false}`,
+      `ignore_errors=${csvOptions.ignoreErrors ?? true}`,
+      `null_padding=${csvOptions.nullPadding ?? true}`,
+      `delim=${quoteLiteral(csvOptions.delimiter || ",")}`,
+    ];
+    const dialect: [string, string | undefined][] = [
+      ["quote", csvOptions.quote],
+      ["escape", csvOptions.escape],
+      ["comment", csvOptions.comment],
+      ["dateformat", csvOptions.dateFormat],
+      ["timestampformat", csvOptions.timestampFormat],
+      ["decimal_separator", csvOptions.decimalSeparator],
+      ["nullstr", csvOptions.nullString],
+      ["encoding", csvOptions.encoding],
+    ];
+    dialect.forEach(([option, value]) => {
+      if (value) readerOptions.push(`${option}=${quoteLiteral(value)}`);
+    });
+    if (compression) {
+      readerOptions.push(`compression=${quoteLiteral(compression)}`);
+    }
+    if (csvOptions.skip) readerOptions.push(`skip=${csvOptions.skip}`);
+    if (csvOptions.sampleSize) {
+      readerOptions.push(`sample_size=${csvOptions.sampleSize}`);
+    }
+    if (storeRejects) {
+      readerOptions.push(
+        "store_rejects=true",
+        `rejects_table=${quoteLiteral(REJECTS_TABLE)}`,
+        `rejects_scan=${quoteLiteral(REJECTS_SCAN_TABLE)}`
+      );
+    }
+    if (changedTypes.length > 0) {
+      readerOptions.push(`types=${buildColumnTypesOption(changedTypes)}`);
+    }
+    return `SELECT ${projection} FROM read_csv(${file}, ${readerOptions.join(", ")})`;
+  }
+  if (format === "xlsx") {
+    const excelOptions = options.excel || {};
+    const readerOptions = [`all_varchar=${excelOptions.allVarchar ?? false}`];
+    if (excelOptions.header !== undefined) {
+      readerOptions.push(`header=${excelOptions.header}`);
+    }
+    if (excelOptions.sheet) {
+      readerOptions.push(`sheet=${quoteLiteral(excelOptions.sheet)}`);
+    }
+    if (excelOptions.range) {
+      if (!EXCEL_RANGE_PATTERN.test(excelOptions.range)) {
+        throw new Error(
+          `Invalid cell range ${excelOptions.range}, expected e.g. A1:F100`
+        );
+      }
+      readerOptions.push(`range=${quoteLiteral(excelOptions.range)}`);
+    }
+    return `SELECT ${projection} FROM read_xlsx(${file}, ${readerOptions.join(", ")})`;
+  }
+  if (format === "json") {
+    // Listing the columns makes the reader skip excluded keys too.
+    const readerOptions = ["auto_detect=true", "ignore_errors=true"];
+    if (compression) {
+      readerOptions.push(`compression=${quoteLiteral(compression)}`);
+    }
+    if (columns && !isDefaultImport(columns)) {
+      readerOptions.push(
+        `columns=${buildColumnTypesOption(
+          columns.filter((column) => column.include)
+        )}`
+      );
+    }
+    return `SELECT ${projection} FROM read_json(${file}, ${readerOptions.join(", ")})`;
+  }
+  return `SELECT ${projection} FROM read_${format}(${file})`;
+};
+
+// Temporary tables DuckDB writes the rows skipped by ignore_errors to. They
+// belong to the import connection, so they're copied to a regular table.
+const REJECTS_TABLE = "__duck_ui_rejects";
+const REJECTS_SCAN_TABLE = "__duck_ui_rejects_scan";
+
+// DuckDB appends to the rejects tables on every scan.
+const clearRejects = async (connection: duckdb.AsyncDuckDBConnection) => {
+  await connection.query(`DROP TABLE IF EXISTS temp.${REJECTS_TABLE}`);
+  await connection.query(`DROP TABLE IF EXISTS temp.${REJECTS_SCAN_TABLE}`);
+};
+
+/**
+ * Copies the rows rejected while importing a table to <table>_rejects,
+ * replacing the rejects of an earlier import, and returns how many there are.
+ */
+const saveRejectedRows = async (
+  connection: duckdb.AsyncDuckDBConnection,
+  tableName: string
+): Promise<{ count: number; table: string }> => {
+  const table = `${tableName}_rejects`;
+  await connection.query(
+    `CREATE OR REPLACE TABLE ${quoteIdentifier(table)} AS
+     SELECT line, column_name, error_type, csv_line, error_message
+     FROM temp.${REJECTS_TABLE}
+     ORDER BY line`
+  );
+  await clearRejects(connection);
+  const count = await connection.query(
+    `SELECT COUNT(*) AS count FROM ${quoteIdentifier(table)}`
+  );
+  return { count: Number(count.toArray()[0].count), table };
+};
+
+// Name of the table staging the rows of an upsert.
+const UPSERT_STAGING_TABLE = quoteIdentifier("__duck_ui_upsert_staging");
+
+// Reads the "Count" column DuckDB returns for INSERT and UPDATE statements.
+const readRowCount = (result: Table): number =>
+  Number(result.toArray()[0]?.Count ?? 0);
+
+/**
+ * Updates the rows of a table matching the key columns of the imported rows
+ * and inserts the others, in one transaction. Imported tables have no
+ * primary key for ON CONFLICT, so the rows are staged and matched by hand.
+ */
+const upsertRows = async (
+  connection: duckdb.AsyncDuckDBConnection,
+  target: string,
+  select: string,
+  columns: string[],
+  keyColumns: string[]
+): Promise<ImportResult> => {
+  const keys = new Set(keyColumns.map((key) => key.toLowerCase()));
+  const matches = keyColumns
+    .map(
+      (key) =>
+        `${target}.${quoteIdentifier(key)} = ${UPSERT_STAGING_TABLE}.${quoteIdentifier(key)}`
+    )
+    .join(" AND ");
+  const assignments = columns
+    .filter((column) => !keys.has(column.toLowerCase()))
+    .map(
+      (column) =>
+        `${quoteIdentifier(column)} = ${UPSERT_STAGING_TABLE}.${quoteIdentifier(column)}`
+    );
+
+  await connection.query("BEGIN TRANSACTION");
+  try {
+    await connection.query(
+      `CREATE OR REPLACE TEMP TABLE ${UPSERT_STAGING_TABLE} AS ${select}`
+    );
+    const updated =
+      assignments.length > 0
+        ? readRowCount(
+            await connection.query(
+              `UPDATE ${target} SET ${assignments.join(", ")} FROM ${UPSERT_STAGING_TABLE} WHERE ${matches}`
+            )
+          )
+        : 0;
+    const inserted = readRowCount(
+      await connection.query(
+        `INSERT INTO ${target} BY NAME SELECT * FROM ${UPSERT_STAGING_TABLE} WHERE NOT EXISTS (SELECT 1 FROM ${target} WHERE ${matches})`
+      )
+    );
+    await connection.query(`DROP TABLE ${UPSERT_STAGING_TABLE}`);
+    await connection.query("COMMIT");
+    return { inserted, updated };
+  } catch (error) {
+    await connection.query("ROLLBACK");
+    throw error;
+  }
+};
+
+/**
+ * Checks that the rows of a query fit an existing table, to append or upsert
+ * them, and returns their column names.
+ */
+const checkImportTarget = async (
+  connection: duckdb.AsyncDuckDBConnection,
+  select: string,
+  tableName: string,
+  existing: TableInfo | undefined,
+  mode: ImportMode,
+  keyColumns: string[]
+): Promise<string[]> => {
+  if (!existing) {
+    throw new Error(`Table ${tableName} doesn't exist. Create it first.`);
+  }
+  if (mode === "upsert" && keyColumns.length === 0) {
+    throw new Error("Pick the key columns to upsert on.");
+  }
+  const schemaResult = await connection.query(`DESCRIBE ${select}`);
+  const incoming = schemaResult.toArray().map((row) => ({
+    name: row.column_name.toString(),
+    type: row.column_type.toString(),
+  }));
+  const problems = checkSchemaCompatibility(
+    incoming,
+    existing.columns,
+    mode === "upsert" ? keyColumns : []
+  );
+  if (problems.length > 0) {
+    throw new Error(
+      `The data doesn't match table ${tableName}: ${problems.join("; ")}`
+    );
+  }
+  return incoming.map((column) => column.name);
+};
+
+/**
+ * Imports several files as one relation, with their columns matched by name
+ * and hive partitions read from their paths, into a table with the same
+ * modes as a single file, or as a view over the files. Tables are created
+ * or appended to one file at a time in a transaction, which gives progress
+ * and leaves nothing behind on failure. Returns the rows written to a table.
+ */
+const createRelationFromFiles = async (
+  connection: duckdb.AsyncDuckDBConnection,
+  tableName: string,
+  existing: TableInfo | undefined,
+  paths: string[],
+  format: ImportFormat,
+  { mode, keyColumns = [], onProgress, signal }: MultiFileImportOptions
+): Promise<ImportResult | undefined> => {
+  const hivePartitioning = paths.some(hasHivePartitions);
+  const target = quoteIdentifier(tableName);
+  const selectAll = `SELECT * FROM ${buildReadExpression(paths, format, {
+    hivePartitioning,
+  })}`;
+
+  if (mode === "view") {
+    onProgress?.({ stage: "Reading schema", loaded: 0, total: 1 });
+    await connection.query(`CREATE OR REPLACE VIEW ${target} AS ${selectAll}`);
+    onProgress?.({ stage: "Done", loaded: 1, total: 1 });
+    return undefined;
+  }
+  if (mode === "create" && existing) {
+    throw new Error(
+      `Table ${tableName} already exists. Replace it, append to it or upsert into it instead.`
+    );
+  }
+
+  // Upserts stage all the rows at once.
+  const total = mode === "upsert" ? 2 : paths.length + 1;
+  onProgress?.({ stage: "Reading schema", loaded: 0, total });
+  if (mode === "upsert") {
+    const columns = await checkImportTarget(
+      connection,
+      selectAll,
+      tableName,
+      existing,
+      mode,
+      keyColumns
+    );
+    onProgress?.({ stage: "Upserting rows", loaded: 1, total });
+    const result = await upsertRows(
+      connection,
+      target,
+      selectAll,
+      columns,
+      keyColumns
+    );
+    onProgress?.({ stage: "Done", loaded: total, total });
+    return result;
+  }
+  if (mode === "append") {
+    await checkImportTarget(
+      connection,
+      selectAll,
+      tableName,
+      existing,
+      mode,
+      keyColumns
+    );
+  }
+
+  let inserted = 0;
+  await connection.query("BEGIN TRANSACTION");
+  try {
+    if (mode !== "append") {
+      await connection.query(
+        `CREATE ${mode === "replace" ? "OR REPLACE " : ""}TABLE ${target} AS ${selectAll} LIMIT 0`
+      );
+    }
+    for (const [index, path] of paths.entries()) {
+      if (signal?.aborted) throw new Error("Import cancelled");
+      onProgress?.({
+        stage: `Loading ${path.split("/").pop()}`,
+        loaded: index + 1,
+        total,
+      });
+      inserted += readRowCount(
+        await connection.query(
+          `INSERT INTO ${target} BY NAME SELECT * FROM ${buildReadExpression(
+            [path],
+            format,
+            { hivePartitioning }
+          )}`
+        )
+      );
+    }
+    await connection.query("COMMIT");
+  } catch (error) {
+    await connection.query("ROLLBACK");
+    throw error;
+  }
+  onProgress?.({ stage: "Done", loaded: total, total });
+  return { inserted, updated: 0 };
+};
+
 //
 // STORE DEFINITION
 //
@@ -453,9 +1357,19 @@ export const useDuckStore = create<DuckStoreState>()(
         connection: null,
         isInitialized: false,
         currentDatabase: "memory",
+        storageMode: "memory",
+        isPersistent: false,
+        lastCheckpoint: null,
         databases: [],
         queryHistory: [],
         isExecuting: false,
+        executingTabs: {},
+        stopOnError: true,
+        tabConnections: {},
+        savedQueries: [],
+        connectionHealth: null,
+        vault: null,
+        isVaultUnlocked: false,
         tabs: [
           {
             id: "home",
@@ -476,118 +1390,316 @@ export const useDuckStore = create<DuckStoreState>()(
 
         // Initialize DuckDB using WASM or External.
         initialize: async () => {
-          let initialConnections: ConnectionProvider[] = [];
-
-          // Extract environment variables if available
-          const envVars: Window["env"] = window.env || {
-            DUCK_UI_EXTERNAL_CONNECTION_NAME: "",
-            DUCK_UI_EXTERNAL_HOST: "",
-            DUCK_UI_EXTERNAL_PORT: "",
-            DUCK_UI_EXTERNAL_USER: "",
-            DUCK_UI_EXTERNAL_PASS: "",
-            DUCK_UI_EXTERNAL_DATABASE_NAME: "",
-            DUCK_UI_ALLOW_UNSIGNED_EXTENSIONS: false,
-          };
-          const {
-            DUCK_UI_EXTERNAL_CONNECTION_NAME: externalConnectionName = "",
-            DUCK_UI_EXTERNAL_HOST: externalHost = "",
-            DUCK_UI_EXTERNAL_PORT: externalPort = "",
-            DUCK_UI_EXTERNAL_USER: externalUser = "",
-            DUCK_UI_EXTERNAL_PASS: externalPass = "",
-            DUCK_UI_EXTERNAL_DATABASE_NAME: externalDatabaseName = "",
-            DUCK_UI_ALLOW_UNSIGNED_EXTENSIONS: allowUnsignedExtensions = false,
-          } = envVars;
-
-          // Log config for debugging
-          console.log("DuckDB Config:", {
-            allowUnsignedExtensions,
-            hasExternalConnection: Boolean(
-              externalConnectionName && externalHost && externalPort
-            ),
-          });
-
-          const wasmConnection: ConnectionProvider = {
-            environment: "APP",
-            id: "WASM",
-            name: "WASM",
-            scope: "WASM",
-          };
-
-          initialConnections.push(wasmConnection);
-
-          if (externalConnectionName && externalHost && externalPort) {
-            initialConnections.push({
-              environment: "ENV",
-              id: externalConnectionName,
-              name: externalConnectionName,
-              scope: "External",
-              host: externalHost,
-              port: Number(externalPort),
-              user: externalUser,
-              password: externalPass,
-              database: externalDatabaseName,
-              authMode: "password", // Assuming password auth
+          if (isInitializing || get().isInitialized) return;
+          isInitializing = true;
+          try {
+            await get().loadQueryHistory();
+
+            let initialConnections: ConnectionProvider[] = [];
+
+            // Extract environment variables if available
+            const envVars: Window["env"] = window.env || {
+              DUCK_UI_EXTERNAL_CONNECTION_NAME: "",
+              DUCK_UI_EXTERNAL_HOST: "",
+              DUCK_UI_EXTERNAL_PORT: "",
+              DUCK_UI_EXTERNAL_USER: "",
+              DUCK_UI_EXTERNAL_PASS: "",
+              DUCK_UI_EXTERNAL_DATABASE_NAME: "",
+              DUCK_UI_EXTERNAL_AUTH_MODE: "",
+              DUCK_UI_EXTERNAL_API_KEY: "",
+              DUCK_UI_EXTERNAL_API_KEY_HEADER: "",
+              DUCK_UI_EXTERNAL_TOKEN: "",
+              DUCK_UI_EXTERNAL_DRIVER: "",
+              DUCK_UI_ALLOW_UNSIGNED_EXTENSIONS: false,
+            };
+            const {
+              DUCK_UI_EXTERNAL_CONNECTION_NAME: externalConnectionName = "",
+              DUCK_UI_EXTERNAL_HOST: externalHost = "",
+              DUCK_UI_EXTERNAL_PORT: externalPort = "",
+              DUCK_UI_EXTERNAL_USER: externalUser = "",
+              DUCK_UI_EXTERNAL_PASS: externalPass = "",
+              DUCK_UI_EXTERNAL_DATABASE_NAME: externalDatabaseName = "",
+              DUCK_UI_EXTERNAL_AUTH_MODE: externalAuthMode = "",
+              DUCK_UI_EXTERNAL_API_KEY: externalApiKey = "",
+              DUCK_UI_EXTERNAL_API_KEY_HEADER: externalApiKeyHeader = "",
+              DUCK_UI_EXTERNAL_TOKEN: externalToken = "",
+              DUCK_UI_EXTERNAL_DRIVER: externalDriver = "",
+              DUCK_UI_ALLOW_UNSIGNED_EXTENSIONS:
+                allowUnsignedExtensions = false,
+            } = envVars;
+
+            // Log config for debugging
+            console.log("DuckDB Config:", {
+              allowUnsignedExtensions,
+              hasExternalConnection: Boolean(
+                externalConnectionName && externalHost && externalPort
+              ),
             });
-          }
 
-          set({
-            connectionList: { connections: initialConnections },
-          });
+            const wasmConnection: ConnectionProvider = {
+              environment: "APP",
+              id: "WASM",
+              name: "WASM",
+              scope: "WASM",
+            };
+
+            initialConnections.push(wasmConnection);
+
+            if (externalConnectionName && externalHost && externalPort) {
+              initialConnections.push({
+                environment: "ENV",
+                id: externalConnectionName,
+                name: externalConnectionName,
+                scope: "External",
+                host: externalHost,
+                port: Number(externalPort),
+                user: externalUser,
+                password: externalPass,
+                database: externalDatabaseName,
+                // Password auth unless the environment picks another mode.
+                authMode: AUTH_MODES.includes(
+                  externalAuthMode as ConnectionAuthMode
+                )
+                  ? (externalAuthMode as ConnectionAuthMode)
+                  : "password",
+                apiKey: externalApiKey,
+                apiKeyHeader: externalApiKeyHeader,
+                bearerToken: externalToken,
+                driver:
+                  CONNECTION_DRIVERS.find(
+                    (driver) => driver.id === externalDriver
+                  )?.id ?? DEFAULT_CONNECTION_DRIVER,
+              });
+            }
 
-          if (initialConnections.length > 0) {
-            // Initialize WASM and set "memory" as default
-            const { db, connection } = await initializeWasmConnection();
+            // Connections added in the app come back from storage; the
+            // built-in and environment ones are recreated on every start.
+            const savedConnections = get().connectionList.connections.filter(
+              (connection) =>
+                connection.environment === "APP" &&
+                connection.scope === "External" &&
+                !initialConnections.some((c) => c.id === connection.id)
+            );
             set({
-              db,
-              connection,
-              isInitialized: true,
-              currentDatabase: "memory",
+              connectionList: {
+                connections: [...initialConnections, ...savedConnections],
+              },
             });
-            await Promise.all([
-              connection.query(`SET enable_http_metadata_cache=true`),
-              connection.query(`INSTALL arrow`),
-              connection.query(`INSTALL parquet`),
-            ]);
-
-            //Then automatically connect to the first connection.
-            await get().setCurrentConnection(initialConnections[0].id);
-          } else {
-            set({ isLoading: false, isInitialized: true }); // Set as initialized if no connections are configured.
+
+            if (initialConnections.length > 0) {
+              // Initialize WASM, persisted in OPFS if the user opted in.
+              const { db, connection, isPersistent } =
+                await initializeWasmConnection(get().storageMode);
+              set({
+                db,
+                connection,
+                isPersistent,
+                isInitialized: true,
+                currentDatabase: isPersistent ? OPFS_DATABASE_NAME : "memory",
+              });
+              if (isPersistent) {
+                startCheckpointTimer(get().checkpoint);
+              }
+
+              //Then automatically connect to the first connection.
+              await get().setCurrentConnection(initialConnections[0].id);
+            } else {
+              set({ isLoading: false, isInitialized: true }); // Set as initialized if no connections are configured.
+            }
+          } finally {
+            isInitializing = false;
           }
         },
 
         // Execute a query with proper error handling.
         executeQuery: async (query, tabId?) => {
-          const { currentConnection, connection } = get();
+          const { currentConnection, connection, stopOnError } = get();
+          const executionKey = tabId ?? "";
+          const controller = new AbortController();
+          runningQueries.set(executionKey, controller);
+          const parsedStatements = splitSqlStatements(query);
+          const statements =
+            parsedStatements.length > 0 ? parsedStatements : [query];
+          if (tabId) {
+            closeResultStream(tabId);
+            dropResultCount(tabId);
+          }
+          // Only tab queries have placeholders, filled from the tab's values.
+          const parameters = tabId
+            ? (get().tabs.find((tab) => tab.id === tabId)?.parameters ?? {})
+            : undefined;
+          const runStartedAt = performance.now();
+          const historyDetails = {
+            query,
+            connectionId: currentConnection?.id,
+            connectionName: currentConnection?.name,
+            tabId,
+            tabTitle: get().tabs.find((tab) => tab.id === tabId)?.title,
+          };
           try {
-            set({ isExecuting: true, error: null });
-            let queryResult: QueryResult;
-            if (currentConnection?.scope === "External") {
-              queryResult = await executeExternalQuery(
-                query,
-                currentConnection
-              );
-            } else {
+            set((state) => ({
+              executingTabs: { ...state.executingTabs, [executionKey]: true },
+              isExecuting: true,
+              error: null,
+            }));
+            let wasmConnection: duckdb.AsyncDuckDBConnection | null = null;
+            if (currentConnection?.scope !== "External") {
               if (!connection)
                 throw new Error("WASM connection not initialized");
-              const wasmConnection = validateConnection(connection);
-              const result = await wasmConnection.query(query);
-              queryResult = resultToJSON(result);
+              wasmConnection = tabId
+                ? await get().getTabConnection(tabId)
+                : validateConnection(connection);
+            }
+
+            // Run the statements in order, each with its own result.
+            const results: QueryResult[] = [];
+            for (const [index, statement] of statements.entries()) {
+              const startedAt = performance.now();
+              try {
+                const hasParameters =
+                  !!parameters && findQueryParameters(statement).length > 0;
+                let statementResult: QueryResult;
+                if (currentConnection?.scope === "External") {
+                  const queryId = crypto.randomUUID();
+                  runningExternalQueries.set(executionKey, {
+                    queryId,
+                    connection: currentConnection,
+                  });
+                  const driver = getConnectionDriver(currentConnection);
+                  statementResult = await driver.execute(
+                    hasParameters
+                      ? inlineQueryParameters(
+                          statement,
+                          parameters,
+                          driver.quoteLiteral
+                        )
+                      : statement,
+                    currentConnection,
+                    { signal: controller.signal, queryId }
+                  );
+                  runningExternalQueries.delete(executionKey);
+                } else {
+                  const bound = hasParameters
+                    ? prepareQueryParameters(statement, parameters)
+                    : { sql: statement, values: [] };
+                  // Tab queries materialize their first page only. The
+                  // stream of the last statement stays open for load more,
+                  // as running another statement on the connection ends it.
+                  const { table, reader, done, timeToFirstRow } =
+                    await executeWasmQuery(
+                      wasmConnection!,
+                      bound.sql,
+                      controller.signal,
+                      tabId ? RESULT_PAGE_ROWS : Infinity,
+                      hasParameters ? bound.values : undefined
+                    );
+                  const tableResult = arrowToResult(table);
+                  const isLast = index === statements.length - 1;
+                  statementResult = {
+                    ...tableResult,
+                    hasMore: !done && isLast,
+                    truncated: !done && !isLast,
+                    totalRows: done ? tableResult.rowCount : undefined,
+                    timeToFirstRow,
+                    byteSize: arrowByteSize(table.batches),
+                  };
+                  if (tabId && !done && isLast && !controller.signal.aborted) {
+                    resultStreams.set(tabId, reader);
+                    countableStatements.set(tabId, {
+                      statement,
+                      ...bound,
+                    });
+                  }
+                }
+                if (controller.signal.aborted) {
+                  throw new Error("Query cancelled");
+                }
+                results.push({
+                  ...statementResult,
+                  statement,
+                  duration: performance.now() - startedAt,
+                  affectedRows: getAffectedRows(statement, statementResult),
+                  plan: getQueryPlan(statement, statementResult),
+                });
+              } catch (error) {
+                if (controller.signal.aborted) throw error;
+                results.push({
+                  columns: [],
+                  columnTypes: [],
+                  data: [],
+                  rowCount: 0,
+                  error:
+                    error instanceof Error ? error.message : "Unknown error",
+                  statement,
+                  duration: performance.now() - startedAt,
+                });
+                if (stopOnError) break;
+              }
             }
+
+            const queryResult = results[results.length - 1];
+            const errorMessage = results.find((result) => result.error)?.error;
             // Update query history and update tab result if applicable.
             set((state) => ({
-              queryHistory: updateHistory(state.queryHistory, query),
+              queryHistory: recordHistory(state.queryHistory, {
+                ...historyDetails,
+                duration: performance.now() - runStartedAt,
+                timeToFirstRow: queryResult.timeToFirstRow,
+                rowCount:
+                  queryResult.affectedRows ??
+                  queryResult.totalRows ??
+                  queryResult.rowCount,
+                columnCount: queryResult.columns.length,
+                byteSize: queryResult.byteSize,
+                ...(errorMessage ? { error: errorMessage } : {}),
+              }),
               tabs: state.tabs.map((tab) =>
-                tab.id === tabId ? { ...tab, result: queryResult } : tab
+                tab.id === tabId
+                  ? {
+                      ...tab,
+                      result: queryResult,
+                      results,
+                      runId: crypto.randomUUID(),
+                    }
+                  : tab
               ),
-              isExecuting: false,
+              ...(errorMessage ? { error: errorMessage } : {}),
             }));
-            // If the query is DDL, refresh schema.
-            if (/^(CREATE|ALTER|DROP|ATTACH)/i.test(query.trim())) {
+            // If the script contains DDL, refresh schema.
+            if (
+              results.some(
+                (result) =>
+                  !result.error &&
+                  isSchemaChangingStatement(result.statement ?? "")
+              )
+            ) {
               await get().fetchDatabasesAndTablesInfo();
             }
             return tabId ? undefined : queryResult;
           } catch (error) {
+            // A cancelled query is not an error: record it as such instead.
+            if (controller.signal.aborted) {
+              const cancelledResult: QueryResult = {
+                columns: [],
+                columnTypes: [],
+                data: [],
+                rowCount: 0,
+                cancelled: true,
+              };
+              set((state) => ({
+                queryHistory: recordHistory(state.queryHistory, {
+                  ...historyDetails,
+                  duration: performance.now() - runStartedAt,
+                  error: "Query cancelled",
+                }),
+                tabs: state.tabs.map((tab) =>
+                  tab.id === tabId
+                    ? { ...tab, result: cancelledResult, results: undefined }
+                    : tab
+                ),
+              }));
+              return tabId ? undefined : cancelledResult;
+            }
             const errorMessage =
               error instanceof Error ? error.message : "Unknown error";
             const errorResult: QueryResult = {
@@ -598,18 +1710,185 @@ export const useDuckStore = create<DuckStoreState>()(
               error: errorMessage,
             };
             set((state) => ({
-              queryHistory: updateHistory(
-                state.queryHistory,
-                query,
-                errorMessage
-              ),
+              queryHistory: recordHistory(state.queryHistory, {
+                ...historyDetails,
+                duration: performance.now() - runStartedAt,
+                error: errorMessage,
+              }),
               tabs: state.tabs.map((tab) =>
-                tab.id === tabId ? { ...tab, result: errorResult } : tab
+                tab.id === tabId
+                  ? { ...tab, result: errorResult, results: undefined }
+                  : tab
               ),
-              isExecuting: false,
               error: errorMessage,
             }));
+          } finally {
+            if (runningQueries.get(executionKey) === controller) {
+              runningQueries.delete(executionKey);
+              runningExternalQueries.delete(executionKey);
+            }
+            set((state) => {
+              const executingTabs = omitKeys(state.executingTabs, [
+                executionKey,
+              ]);
+              return {
+                executingTabs,
+                isExecuting: Object.keys(executingTabs).length > 0,
+              };
+            });
+          }
+        },
+
+        // Run the last statement of a query with profiling, so the tab shows
+        // its plan with the time and rows of each operator.
+        explainQuery: async (query, tabId) => {
+          const explain = getExplainStatement(get().currentConnection);
+          if (!explain) {
+            throw new Error("This connection doesn't support Explain");
+          }
+          const statements = splitSqlStatements(query);
+          const statement = statements[statements.length - 1];
+          if (!statement) return;
+          await get().executeQuery(explain(statement), tabId);
+        },
+
+        setStopOnError: (stopOnError) => {
+          set({ stopOnError });
+        },
+
+        // Cancel the query running in a tab, if any.
+        cancelQuery: (tabId?) => {
+          abortRunningQuery(tabId ?? "");
+        },
+
+        // Count all the rows of the tab's partially loaded result. The count
+        // runs on the tab's connection, to see its temp tables and settings,
+        // which ends the open stream: no more rows can be loaded after it.
+        countResultRows: async (tabId) => {
+          const countable = countableStatements.get(tabId);
+          if (!countable) return;
+          runningCounts.get(tabId)?.abort();
+          const controller = new AbortController();
+          runningCounts.set(tabId, controller);
+          const updateResult = (update: Partial<QueryResult>) =>
+            set((state) => ({
+              tabs: state.tabs.map((tab) => {
+                if (
+                  tab.id !== tabId ||
+                  tab.result?.statement !== countable.statement
+                )
+                  return tab;
+                return replaceTabResult(tab, { ...tab.result, ...update });
+              }),
+            }));
+          try {
+            closeResultStream(tabId);
+            updateResult({ hasMore: false });
+            const totalRows = await countStatementRows(
+              await get().getTabConnection(tabId),
+              countable.sql,
+              countable.values,
+              controller.signal
+            );
+            if (totalRows !== undefined) updateResult({ totalRows });
+          } catch (error) {
+            toast.error(
+              `Failed to count rows: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`
+            );
+          } finally {
+            if (runningCounts.get(tabId) === controller) {
+              runningCounts.delete(tabId);
+            }
+          }
+        },
+
+        // Stop counting the rows of the tab's result.
+        cancelCount: (tabId) => {
+          runningCounts.get(tabId)?.abort();
+        },
+
+        // Materialize the next page of the tab's open result stream.
+        loadMoreRows: async (tabId) => {
+          const reader = resultStreams.get(tabId);
+          if (!reader) return;
+          let rows: Record<string, unknown>[] = [];
+          let byteSize = 0;
+          let done = false;
+          let failed = false;
+          try {
+            const page = await readBatches(reader, RESULT_PAGE_ROWS);
+            rows = page.batches.flatMap((batch) => arrowToRows(batch));
+            byteSize = arrowByteSize(page.batches);
+            done = page.done;
+          } catch (error) {
+            failed = true;
+            toast.error(
+              `Failed to load more rows: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`
+            );
           }
+          // A new query may have replaced the stream in the meantime.
+          if (resultStreams.get(tabId) !== reader) return;
+          if (done || failed) resultStreams.delete(tabId);
+
+          set((state) => ({
+            tabs: state.tabs.map((tab) => {
+              if (tab.id !== tabId || !tab.result) return tab;
+              const result: QueryResult = {
+                ...tab.result,
+                data: [...tab.result.data, ...rows],
+                rowCount: tab.result.rowCount + rows.length,
+                byteSize: (tab.result.byteSize ?? 0) + byteSize,
+                hasMore: !done && !failed,
+                totalRows: done
+                  ? tab.result.rowCount + rows.length
+                  : tab.result.totalRows,
+              };
+              return replaceTabResult(tab, result);
+            }),
+          }));
+        },
+
+        // Get the tab's own connection, opening it on first use.
+        getTabConnection: async (tabId) => {
+          const existing = get().tabConnections[tabId];
+          if (existing) return existing;
+          const { db } = get();
+          if (!db) throw new Error("Database not initialized");
+          const tabConnection = validateConnection(await db.connect());
+          set((state) => ({
+            tabConnections: { ...state.tabConnections, [tabId]: tabConnection },
+          }));
+          return tabConnection;
+        },
+
+        // Cancel running queries and close the connections of the given tabs
+        // (all tabs when omitted).
+        releaseTabConnections: async (tabIds?) => {
+          const { tabConnections } = get();
+          const ids = tabIds ?? Object.keys(tabConnections);
+          ids.forEach((id) => {
+            abortRunningQuery(id);
+            closeResultStream(id);
+            dropResultCount(id);
+          });
+          set((state) => ({
+            tabConnections: omitKeys(state.tabConnections, ids),
+          }));
+          await Promise.all(
+            ids
+              .filter((id) => tabConnections[id])
+              .map((id) =>
+                tabConnections[id]
+                  .close()
+                  .catch((error) =>
+                    console.error("Failed to close tab connection:", error)
+                  )
+              )
+          );
         },
 
         // Import a file and create a table.
@@ -631,68 +1910,99 @@ export const useDuckStore = create<DuckStoreState>()(
             }
 
             if (!db || !connection) throw new Error("Database not initialized");
-            const buffer = new Uint8Array(fileContent);
-            // Try to drop any previously registered file.
-            try {
-              await db.dropFile(fileName);
-            } catch {}
-            await db.registerFileBuffer(fileName, buffer);
+            const source = await registerImportFile(
+              db,
+              fileName,
+              fileContent,
+              fileType
+            );
             if (fileType === "duckdb") {
               await connection.query(
-                `ATTACH DATABASE '${fileName}' AS ${tableName}`
+                `ATTACH DATABASE '${source}' AS ${tableName}`
+              );
+              await get().fetchDatabasesAndTablesInfo();
+              return undefined;
+            }
+
+            const { mode = "create", keyColumns = [] } = options;
+            // A view would write rejects from whichever connection reads it.
+            const storeRejects =
+              fileType === "csv" &&
+              mode !== "view" &&
+              !!options.csv?.ignoreErrors &&
+              !!options.csv.storeRejects;
+            if (storeRejects) await clearRejects(connection);
+            const select = buildFileImportQuery(
+              source,
+              fileType,
+              options,
+              options.columns,
+              storeRejects
+            );
+            const target = quoteIdentifier(tableName);
+            const existing = findTable(
+              get().databases,
+              get().currentDatabase,
+              tableName
+            );
+
+            if (mode === "view") {
+              if (get().isPersistent) throw new Error(PERSISTENT_VIEW_ERROR);
+              if (!canQueryInPlace(fileType)) {
+                throw new Error(
+                  `${fileType.toUpperCase()} files can't be queried in place.`
+                );
+              }
+              await connection.query(
+                `CREATE OR REPLACE VIEW ${target} AS ${select}`
               );
               await get().fetchDatabasesAndTablesInfo();
-              return;
+              return undefined;
             }
 
-            // Enhanced import with format-specific options
-            if (fileType.toLowerCase() === "csv") {
-              // Use provided options or defaults
-              const csvOptions = options.csv || {};
-              const headerOption =
-                csvOptions.header !== undefined ? csvOptions.header : true;
-              const autoDetectOption =
-                csvOptions.autoDetect !== undefined
-                  ? csvOptions.autoDetect
-                  : true;
-              const ignoreErrorsOption =
-                csvOptions.ignoreErrors !== undefined
-                  ? csvOptions.ignoreErrors
-                  : true;
-              const nullPaddingOption =
-                csvOptions.nullPadding !== undefined
-                  ? csvOptions.nullPadding
-                  : true;
-              const allVarcharOption =
-                csvOptions.allVarchar !== undefined
-                  ? csvOptions.allVarchar
-                  : false;
-              const delimiterOption = csvOptions.delimiter || ",";
-
-              // Build CSV options string
-              const optionsString = `
-                header=${headerOption}, 
-                auto_detect=${autoDetectOption}, 
-                all_varchar=${allVarcharOption}, 
-                ignore_errors=${ignoreErrorsOption}, 
-                null_padding=${nullPaddingOption},
-                delim='${delimiterOption}'
-              `;
-
-              await connection.query(`
-                CREATE OR REPLACE TABLE "${tableName}" AS 
-                SELECT * FROM read_csv('${fileName}', ${optionsString})
-              `);
-            } else if (fileType.toLowerCase() === "json") {
-              await connection.query(`
-                CREATE OR REPLACE TABLE "${tableName}" AS 
-                SELECT * FROM read_json('${fileName}', auto_detect=true, ignore_errors=true)
-              `);
+            let result: ImportResult;
+            if (mode === "create" || mode === "replace") {
+              if (mode === "create" && existing) {
+                throw new Error(
+                  `Table ${tableName} already exists. Replace it, append to it or upsert into it instead.`
+                );
+              }
+              await connection.query(
+                `CREATE ${mode === "replace" ? "OR REPLACE " : ""}TABLE ${target} AS ${select}`
+              );
+              const count = await connection.query(
+                `SELECT COUNT(*) AS count FROM ${target}`
+              );
+              result = {
+                inserted: Number(count.toArray()[0].count),
+                updated: 0,
+              };
             } else {
-              await connection.query(`
-                CREATE OR REPLACE TABLE "${tableName}" AS 
-                SELECT * FROM read_${fileType.toLowerCase()}('${fileName}')
-              `);
+              const columns = await checkImportTarget(
+                connection,
+                select,
+                tableName,
+                existing,
+                mode,
+                keyColumns
+              );
+              result =
+                mode === "append"
+                  ? {
+                      inserted: readRowCount(
+                        await connection.query(
+                          `INSERT INTO ${target} BY NAME ${select}`
+                        )
+                      ),
+                      updated: 0,
+                    }
+                  : await upsertRows(
+                      connection,
+                      target,
+                      select,
+                      columns,
+                      keyColumns
+                    );
             }
             const verification = await connection.query(`
               SELECT COUNT(*) AS count 
@@ -703,14 +2013,149 @@ export const useDuckStore = create<DuckStoreState>()(
             if (verification.toArray()[0][0] === 0) {
               throw new Error("Table creation verification failed");
             }
+            if (storeRejects) {
+              result.rejected = await saveRejectedRows(connection, tableName);
+            }
             await get().fetchDatabasesAndTablesInfo();
+            return result;
+          } catch (error) {
+            await get().fetchDatabasesAndTablesInfo();
+            throw new Error(
+              `Import failed: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`
+            );
+          }
+        },
+
+        // Read the schema and first rows of a file without importing it.
+        previewImportFile: async (
+          fileName,
+          fileContent,
+          fileType,
+          options = {}
+        ) => {
+          const { db, connection } = get();
+          if (!db || !connection) throw new Error("Database not initialized");
+          const source = await registerImportFile(
+            db,
+            fileName,
+            fileContent,
+            fileType
+          );
+
+          const schemaResult = await connection.query(
+            `DESCRIBE ${buildFileImportQuery(source, fileType, options)}`
+          );
+          const schema = schemaResult.toArray().map((row) => ({
+            name: row.column_name.toString(),
+            type: row.column_type.toString(),
+          }));
+          const rows = await connection.query(
+            `${buildFileImportQuery(
+              source,
+              fileType,
+              options,
+              options.columns
+            )} LIMIT ${IMPORT_PREVIEW_ROWS}`
+          );
+          return { schema, result: arrowToResult(rows) };
+        },
+
+        // Import remote files through httpfs, into a table or as a view over
+        // the URLs. Returns the rows written to a table.
+        importFromUrl: async (input, tableName, options) => {
+          const { connection, currentConnection } = get();
+          if (currentConnection?.scope === "External") {
+            throw new Error(
+              "URL import is not supported for external connections."
+            );
+          }
+          if (!connection) throw new Error("Database not initialized");
+
+          const urls = parseImportUrls(input);
+          const format = options.format ?? detectImportFormat(urls[0]);
+          if (!format) {
+            throw new Error(
+              "Couldn't detect the file format from the URL. Pick one."
+            );
+          }
+          try {
+            return await createRelationFromFiles(
+              connection,
+              tableName,
+              findTable(get().databases, get().currentDatabase, tableName),
+              urls,
+              format,
+              options
+            );
           } catch (error) {
+            throw new Error(
+              `Import failed: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`
+            );
+          } finally {
             await get().fetchDatabasesAndTablesInfo();
+          }
+        },
+
+        // Import the files of a local folder as one table or view. They're
+        // registered under a prefix per folder, which keeps their paths, and
+        // so their hive partitions, readable by DuckDB.
+        importFolder: async (folderName, files, tableName, options) => {
+          const { db, connection, currentConnection } = get();
+          if (currentConnection?.scope === "External") {
+            throw new Error(
+              "Folder import is not supported for external connections."
+            );
+          }
+          if (!db || !connection) throw new Error("Database not initialized");
+
+          const format = options.format ?? pickFolderFormat(files);
+          if (!format) {
+            throw new Error("The folder has no Parquet, CSV or JSON files.");
+          }
+          const matching = files.filter(
+            ({ path }) => detectImportFormat(path) === format
+          );
+          if (options.mode === "view" && get().isPersistent) {
+            throw new Error(PERSISTENT_VIEW_ERROR);
+          }
+
+          try {
+            const paths: string[] = [];
+            for (const [index, { path, file }] of matching.entries()) {
+              options.onProgress?.({
+                stage: "Registering files",
+                loaded: index,
+                total: matching.length,
+              });
+              paths.push(
+                await registerImportFile(
+                  db,
+                  `${FOLDER_IMPORT_PREFIX}/${folderName}/${path}`,
+                  file,
+                  format
+                )
+              );
+            }
+            return await createRelationFromFiles(
+              connection,
+              tableName,
+              findTable(get().databases, get().currentDatabase, tableName),
+              paths,
+              format,
+              options
+            );
+          } catch (error) {
             throw new Error(
               `Import failed: ${
                 error instanceof Error ? error.message : "Unknown error"
               }`
             );
+          } finally {
+            await get().fetchDatabasesAndTablesInfo();
           }
         },
 
@@ -721,8 +2166,10 @@ export const useDuckStore = create<DuckStoreState>()(
             set({ isLoadingDbTablesFetch: true, error: null });
             let databases: DatabaseInfo[] = [];
             if (currentConnection?.scope === "External") {
-              // TODO: Implement fetch database logic for external connection.
-              databases = [];
+              databases =
+                await getConnectionDriver(currentConnection).fetchSchema(
+                  currentConnection
+                );
             } else {
               if (!connection) {
                 set({ databases: [], error: null });
@@ -758,6 +2205,7 @@ export const useDuckStore = create<DuckStoreState>()(
         },
 
         closeTab: (tabId) => {
+          get().releaseTabConnections([tabId]);
           set((state) => {
             const updatedTabs = state.tabs.filter((tab) => tab.id !== tabId);
             let newActiveTabId = state.activeTabId;
@@ -805,6 +2253,19 @@ export const useDuckStore = create<DuckStoreState>()(
           }));
         },
 
+        setTabParameter: (tabId, name, parameter) => {
+          set((state) => ({
+            tabs: state.tabs.map((tab) =>
+              tab.id === tabId
+                ? {
+                    ...tab,
+                    parameters: { ...tab.parameters, [name]: parameter },
+                  }
+                : tab
+            ),
+          }));
+        },
+
         moveTab: (oldIndex, newIndex) => {
           set((state) => {
             const newTabs = [...state.tabs];
@@ -817,6 +2278,7 @@ export const useDuckStore = create<DuckStoreState>()(
         closeAllTabs: () => {
           // Close all tabs except the home tab.
           try {
+            get().releaseTabConnections();
             set((state) => ({
               tabs: state.tabs.filter((tab) => tab.type === "home"),
               activeTabId: "home",
@@ -853,8 +2315,128 @@ export const useDuckStore = create<DuckStoreState>()(
           }
         },
 
+        // Clear the history log, keeping favourites.
         clearHistory: () => {
-          set({ queryHistory: [] });
+          const favorites = get().queryHistory.filter((item) => item.favorite);
+          set({ queryHistory: favorites });
+          clearHistoryItems(favorites).catch((error) =>
+            console.error("Failed to clear query history:", error)
+          );
+        },
+
+        // Load the history log from IndexedDB, moving over the entries that
+        // older versions kept in localStorage.
+        loadQueryHistory: async () => {
+          try {
+            let items = await getHistoryItems();
+            const legacyItems = get().queryHistory;
+            if (items.length === 0 && legacyItems.length > 0) {
+              items = legacyItems.map((item) => ({
+                ...item,
+                timestamp: new Date(item.timestamp),
+              }));
+              await putHistoryItems(items);
+            }
+            set({ queryHistory: items });
+          } catch (error) {
+            console.error("Failed to load query history:", error);
+          }
+        },
+
+        // Save a new query, linking it to the tab it was saved from.
+        saveQuery: (input, tabId?) => {
+          const now = new Date().toISOString();
+          const savedQuery: SavedQuery = {
+            ...input,
+            id: crypto.randomUUID(),
+            createdAt: now,
+            updatedAt: now,
+          };
+          set((state) => ({
+            savedQueries: [...state.savedQueries, savedQuery],
+            tabs: state.tabs.map((tab) =>
+              tab.id === tabId
+                ? {
+                    ...tab,
+                    title: savedQuery.name,
+                    savedQueryId: savedQuery.id,
+                  }
+                : tab
+            ),
+          }));
+          return savedQuery;
+        },
+
+        // Update a saved query; a rename also renames the tabs showing it.
+        updateSavedQuery: (id, changes) => {
+          set((state) => ({
+            savedQueries: state.savedQueries.map((savedQuery) =>
+              savedQuery.id === id
+                ? {
+                    ...savedQuery,
+                    ...changes,
+                    updatedAt: new Date().toISOString(),
+                  }
+                : savedQuery
+            ),
+            tabs: changes.name
+              ? state.tabs.map((tab) =>
+                  tab.savedQueryId === id
+                    ? { ...tab, title: changes.name as string }
+                    : tab
+                )
+              : state.tabs,
+          }));
+        },
+
+        deleteSavedQuery: (id) => {
+          set((state) => ({
+            savedQueries: state.savedQueries.filter(
+              (savedQuery) => savedQuery.id !== id
+            ),
+            tabs: state.tabs.map((tab) =>
+              tab.savedQueryId === id
+                ? { ...tab, savedQueryId: undefined }
+                : tab
+            ),
+          }));
+        },
+
+        // Open a saved query, reusing the tab that already shows it.
+        openSavedQuery: (id) => {
+          const { savedQueries, tabs } = get();
+          const savedQuery = savedQueries.find((query) => query.id === id);
+          if (!savedQuery) return;
+          const existingTab = tabs.find((tab) => tab.savedQueryId === id);
+          if (existingTab) {
+            set({ activeTabId: existingTab.id });
+            return;
+          }
+          const newTab: EditorTab = {
+            id: crypto.randomUUID(),
+            title: savedQuery.name,
+            type: "sql",
+            content: savedQuery.query,
+            savedQueryId: id,
+          };
+          set((state) => ({
+            tabs: [...state.tabs, newTab],
+            activeTabId: newTab.id,
+          }));
+        },
+
+        toggleHistoryFavorite: (id) => {
+          const item = get().queryHistory.find((entry) => entry.id === id);
+          if (!item) return;
+          const updated = { ...item, favorite: !item.favorite };
+          set((state) => ({
+            queryHistory: state.queryHistory.map((entry) =>
+              entry.id === id ? updated : entry
+            ),
+          }));
+          putHistoryItems([updated]).catch((error) =>
+            console.error("Failed to save query history:", error)
+          );
         },
 
         exportParquet: async (query: string) => {
@@ -889,9 +2471,76 @@ export const useDuckStore = create<DuckStoreState>()(
           }
         },
 
+        // Local storage actions.
+        setStorageMode: async (mode) => {
+          if (mode === get().storageMode) return;
+          if (mode === "opfs" && !isOpfsSupported()) {
+            toast.error("This browser does not support persistent storage.");
+            return;
+          }
+          set({ storageMode: mode });
+          await get().reopenDatabase();
+        },
+
+        checkpoint: async () => {
+          const { connection, isPersistent } = get();
+          if (!connection || !isPersistent) return;
+          await connection.query(`CHECKPOINT`);
+          set({ lastCheckpoint: new Date() });
+        },
+
+        resetLocalDatabase: async () => {
+          await get().reopenDatabase(true);
+        },
+
+        reopenDatabase: async (wipe = false) => {
+          const { connection, db, storageMode } = get();
+          stopCheckpointTimer();
+          try {
+            set({ isLoading: true, error: null });
+            await get().releaseTabConnections();
+            if (connection) await connection.close();
+            if (db) await db.terminate();
+            set({ db: null, connection: null, isPersistent: false });
+            if (wipe) await removeOpfsDatabase();
+
+            const next = await initializeWasmConnection(storageMode);
+            set({
+              db: next.db,
+              connection: next.connection,
+              isPersistent: next.isPersistent,
+              currentDatabase: next.isPersistent
+                ? OPFS_DATABASE_NAME
+                : "memory",
+              lastCheckpoint: null,
+            });
+            if (next.isPersistent) {
+              startCheckpointTimer(get().checkpoint);
+            }
+            await get().fetchDatabasesAndTablesInfo();
+            toast.success(
+              wipe
+                ? "Local database reset successfully!"
+                : `Database is now ${
+                    next.isPersistent ? "persisted locally" : "in memory"
+                  }`
+            );
+          } catch (error) {
+            const errorMessage =
+              error instanceof Error ? error.message : "Unknown error";
+            set({ error: `Failed to open database: ${errorMessage}` });
+            toast.error(`Failed to open database: ${errorMessage}`);
+          } finally {
+            set({ isLoading: false });
+          }
+        },
+
         cleanup: async () => {
           const { connection, db } = get();
+          stopCheckpointTimer();
+          stopHealthChecks();
           try {
+            await get().releaseTabConnections();
             if (connection) await connection.close();
             if (db) await db.terminate();
           } finally {
@@ -899,10 +2548,14 @@ export const useDuckStore = create<DuckStoreState>()(
               db: null,
               connection: null,
               isInitialized: false,
+              isPersistent: false,
+              lastCheckpoint: null,
               databases: [],
               currentDatabase: "memory",
               error: null,
               queryHistory: [],
+              isExecuting: false,
+              executingTabs: {},
               tabs: [
                 {
                   id: "home",
@@ -932,14 +2585,18 @@ export const useDuckStore = create<DuckStoreState>()(
                 `A connection with the name "${connection.name}" already exists.`
               );
             }
+            if (isVaultLocked(get())) {
+              throw new Error("Unlock the credentials vault first.");
+            }
             if (connection.scope === "External") {
-              await testExternalConnection(connection);
+              await getConnectionDriver(connection).test(connection);
             }
-            set((state) => ({
-              connectionList: {
-                connections: [...state.connectionList.connections, connection],
-              },
-            }));
+            const connections = [
+              ...get().connectionList.connections,
+              connection,
+            ];
+            const vault = await sealVault(get(), connections);
+            set({ connectionList: { connections }, vault });
             toast.success(
               `Connection "${connection.name}" added successfully!`
             );
@@ -959,24 +2616,43 @@ export const useDuckStore = create<DuckStoreState>()(
           }
         },
 
-        updateConnection: (connection) => {
-          set((state) => ({
-            connectionList: {
-              connections: state.connectionList.connections.map((c) =>
-                c.id === connection.id ? connection : c
-              ),
-            },
-          }));
+        updateConnection: async (connection) => {
+          // The form can't show the stored credentials, so saving it while
+          // locked would drop them.
+          if (isVaultLocked(get())) {
+            toast.error("Unlock the credentials vault to edit connections.");
+            return;
+          }
+          // The change is only kept once its credentials are sealed.
+          try {
+            const connections = get().connectionList.connections.map((c) =>
+              c.id === connection.id ? connection : c
+            );
+            const vault = await sealVault(get(), connections);
+            set({ connectionList: { connections }, vault });
+          } catch (error) {
+            toast.error(
+              `Failed to update connection: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`
+            );
+          }
         },
 
-        deleteConnection: (id) => {
-          set((state) => ({
-            connectionList: {
-              connections: state.connectionList.connections.filter(
-                (c) => c.id !== id
-              ),
-            },
-          }));
+        deleteConnection: async (id) => {
+          try {
+            const connections = get().connectionList.connections.filter(
+              (c) => c.id !== id
+            );
+            const vault = await sealVault(get(), connections);
+            set({ connectionList: { connections }, vault });
+          } catch (error) {
+            toast.error(
+              `Failed to delete connection: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`
+            );
+          }
         },
 
         setCurrentConnection: async (connectionId) => {
@@ -988,6 +2664,15 @@ export const useDuckStore = create<DuckStoreState>()(
             if (!connectionProvider) {
               throw new Error(`Connection with ID ${connectionId} not found.`);
             }
+            if (
+              isVaultLocked(get()) &&
+              connectionProvider.environment === "APP" &&
+              connectionProvider.scope === "External"
+            ) {
+              throw new Error(
+                "Unlock the credentials vault to use this connection."
+              );
+            }
 
             set({
               currentConnection: {
@@ -1001,11 +2686,28 @@ export const useDuckStore = create<DuckStoreState>()(
                 password: connectionProvider.password,
                 database: connectionProvider.database,
                 authMode: connectionProvider.authMode,
+                apiKey: connectionProvider.apiKey,
+                apiKeyHeader: connectionProvider.apiKeyHeader,
+                bearerToken: connectionProvider.bearerToken,
+                driver: connectionProvider.driver,
               },
               isLoading: false,
             });
             await get().fetchDatabasesAndTablesInfo();
             toast.success(`Connected to ${connectionProvider.name}`);
+            if (connectionProvider.scope === "External") {
+              set({
+                connectionHealth: {
+                  connectionId: connectionProvider.id,
+                  status: "checking",
+                  failures: 0,
+                },
+              });
+              get().checkConnectionHealth().catch(console.error);
+            } else {
+              stopHealthChecks();
+              set({ connectionHealth: null });
+            }
           } catch (error) {
             set({
               error: `Failed to set current connection: ${
@@ -1013,6 +2715,11 @@ export const useDuckStore = create<DuckStoreState>()(
               }`,
               isLoading: false,
             });
+            toast.error(
+              `Failed to connect: ${
+                error instanceof Error ? error.message : "Unknown error"
+              }`
+            );
           } finally {
             set({ isLoading: false });
           }
@@ -1023,17 +2730,194 @@ export const useDuckStore = create<DuckStoreState>()(
             (c) => c.id === connectionId
           );
         },
+
+        // Check that the current external connection answers, and schedule
+        // the next check: regularly while it does, and sooner and sooner
+        // while reconnecting.
+        checkConnectionHealth: async () => {
+          const { currentConnection, connectionHealth } = get();
+          if (currentConnection?.scope !== "External") {
+            stopHealthChecks();
+            set({ connectionHealth: null });
+            return;
+          }
+          const previous =
+            connectionHealth?.connectionId === currentConnection.id
+              ? connectionHealth
+              : null;
+          const startedAt = performance.now();
+          let health: ConnectionHealth;
+          try {
+            await getConnectionDriver(currentConnection).test(
+              currentConnection
+            );
+            const latency = performance.now() - startedAt;
+            health = {
+              connectionId: currentConnection.id,
+              status: getHealthStatus(0, latency),
+              latency,
+              lastSuccessAt: Date.now(),
+              lastCheckedAt: Date.now(),
+              failures: 0,
+            };
+          } catch (error) {
+            const failures = (previous?.failures ?? 0) + 1;
+            health = {
+              connectionId: currentConnection.id,
+              status: getHealthStatus(failures),
+              latency: previous?.latency,
+              lastSuccessAt: previous?.lastSuccessAt,
+              lastCheckedAt: Date.now(),
+              failures,
+              error: error instanceof Error ? error.message : "Unknown error",
+            };
+          }
+
+          // The user may have switched connections while the check ran.
+          if (get().currentConnection?.id !== currentConnection.id) return;
+          set({ connectionHealth: health });
+
+          const { name } = currentConnection;
+          const previousStatus = previous?.status;
+          if (
+            previousStatus &&
+            previousStatus !== "checking" &&
+            previousStatus !== health.status
+          ) {
+            if (health.status === "offline") {
+              toast.error(`Lost connection to ${name}. Reconnecting...`);
+            } else if (health.status === "degraded") {
+              toast.warning(
+                health.error
+                  ? `Connection to ${name} is unstable: ${health.error}`
+                  : `${name} is responding slowly (${formatDuration(
+                      health.latency ?? 0
+                    )})`
+              );
+            } else if (previousStatus === "offline") {
+              toast.success(`Reconnected to ${name}`);
+              // Reload the schema the failed requests may have left empty.
+              get().fetchDatabasesAndTablesInfo().catch(console.error);
+            } else {
+              toast.success(`Connection to ${name} is healthy again`);
+            }
+          }
+
+          scheduleHealthCheck(
+            get().checkConnectionHealth,
+            health.failures > 0
+              ? RECONNECT_DELAYS_MS[
+                  Math.min(health.failures, RECONNECT_DELAYS_MS.length) - 1
+                ]
+              : HEALTH_CHECK_INTERVAL_MS
+          );
+        },
+
+        // Start encrypting the credentials with a key derived from the
+        // passphrase. The next write of the store drops the plaintext ones.
+        enableVault: async (passphrase) => {
+          const salt = createVaultSalt();
+          const key = await deriveVaultKey(passphrase, salt);
+          const vault = await encryptVault(
+            key,
+            salt,
+            getVaultSecrets(get().connectionList.connections)
+          );
+          vaultKey = key;
+          set({ vault, isVaultUnlocked: true });
+          toast.success("Credentials vault enabled");
+        },
+
+        // Decrypt the credentials back into the connections. Throws when the
+        // passphrase is wrong.
+        unlockVault: async (passphrase) => {
+          const { vault } = get();
+          if (!vault) return;
+          const key = await deriveVaultKey(passphrase, vault.salt);
+          const secrets = await decryptVault<Record<string, ConnectionSecrets>>(
+            key,
+            vault
+          );
+          vaultKey = key;
+          set((state) => ({
+            isVaultUnlocked: true,
+            connectionList: {
+              connections: state.connectionList.connections.map(
+                (connection) => ({ ...connection, ...secrets[connection.id] })
+              ),
+            },
+            currentConnection: state.currentConnection && {
+              ...state.currentConnection,
+              ...secrets[state.currentConnection.id],
+            },
+          }));
+          toast.success("Credentials vault unlocked");
+        },
+
+        // Forget the key and the decrypted credentials, leaving any
+        // connection that needs them.
+        lockVault: async () => {
+          if (!get().vault) return;
+          vaultKey = null;
+          const { currentConnection } = get();
+          if (
+            currentConnection?.environment === "APP" &&
+            currentConnection.scope === "External"
+          ) {
+            await get().setCurrentConnection("WASM");
+          }
+          set((state) => ({
+            isVaultUnlocked: false,
+            connectionList: {
+              connections: state.connectionList.connections.map((connection) =>
+                connection.environment === "APP"
+                  ? stripSecrets(connection)
+                  : connection
+              ),
+            },
+          }));
+          toast.success("Credentials vault locked");
+        },
+
+        // Go back to storing credentials in plaintext. Only possible while
+        // unlocked, as the credentials would be lost otherwise.
+        disableVault: () => {
+          if (isVaultLocked(get())) {
+            throw new Error("Unlock the credentials vault first.");
+          }
+          vaultKey = null;
+          set({ vault: null, isVaultUnlocked: false });
+          toast.success("Credentials vault disabled");
+        },
       }),
       {
         name: "duck-ui-storage",
         // Persist only selected parts of the state.
         partialize: (state) => ({
-          queryHistory: state.queryHistory,
-          databases: state.databases,
-          tabs: state.tabs.map((tab) => ({ ...tab, result: undefined })),
+          savedQueries: state.savedQueries,
+          // In-memory databases are gone after a reload, so only keep the
+          // snapshot when it mirrors what is stored in OPFS.
+          databases: state.isPersistent ? state.databases : [],
+          tabs: state.tabs.map((tab) => ({
+            ...tab,
+            result: undefined,
+            results: undefined,
+            runId: undefined,
+          })),
+          stopOnError: state.stopOnError,
           currentDatabase: state.currentDatabase,
-          currentConnection: state.currentConnection,
-          connectionList: state.connectionList,
+          storageMode: state.storageMode,
+          // With a vault, credentials are only written encrypted inside it.
+          currentConnection:
+            state.vault && state.currentConnection
+              ? stripSecrets(state.currentConnection)
+              : state.currentConnection,
+          connectionList: state.vault
+            ? {
+                connections: state.connectionList.connections.map(stripSecrets),
+              }
+            : state.connectionList,
+          vault: state.vault,
         }),
       }
     )